@@ -0,0 +1,24 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { requestStreamStop } from '@/lib/database/streamStore';
+
+type RouteContext = { params: Promise<{ chatId: string }> };
+
+// Stop the generation running for this chat, wherever it is being served
+export async function POST(_req: Request, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { chatId } = await params;
+    const stopped = await requestStreamStop(userId, chatId);
+
+    return NextResponse.json({ stopped });
+  } catch (error) {
+    console.error('Error stopping chat stream:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
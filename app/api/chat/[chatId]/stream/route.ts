@@ -0,0 +1,73 @@
+import { auth } from '@clerk/nextjs/server';
+import { UI_MESSAGE_STREAM_HEADERS } from 'ai';
+import { getActiveStream, readStreamChunks } from '@/lib/database/streamStore';
+
+export const maxDuration = 30;
+
+const POLL_INTERVAL_MS = 250;
+const MAX_REPLAY_MS = 25_000;
+
+type RouteContext = { params: Promise<{ chatId: string }> };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Reattach to an in-progress generation, replaying buffered chunks from `cursor`
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const { chatId } = await params;
+    const cursorParam = Number(new URL(req.url).searchParams.get('cursor') ?? 0);
+    const cursor = Number.isFinite(cursorParam) && cursorParam > 0 ? Math.floor(cursorParam) : 0;
+
+    const active = await getActiveStream(userId, chatId);
+
+    // Nothing to resume: no generation, or a finished one the client never saw
+    // (a fresh page load gets the finished message from the history endpoint)
+    if (!active || (active.done && cursor === 0)) {
+      return new Response(null, { status: 204 });
+    }
+
+    const encoder = new TextEncoder();
+    const startedAt = Date.now();
+    let position = cursor;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        while (!req.signal.aborted && Date.now() - startedAt < MAX_REPLAY_MS) {
+          const chunks = await readStreamChunks(userId, chatId, active.messageId, position);
+          if (chunks.length > 0) {
+            position += chunks.length;
+            controller.enqueue(encoder.encode(chunks.join('')));
+            if (chunks[chunks.length - 1].startsWith('data: [DONE]')) {
+              controller.close();
+            }
+            return;
+          }
+          const latest = await getActiveStream(userId, chatId);
+          if (!latest || latest.messageId !== active.messageId || latest.done) {
+            // The last chunks may have landed between the read above and this check
+            const rest = await readStreamChunks(userId, chatId, active.messageId, position);
+            if (rest.length > 0) {
+              position += rest.length;
+              controller.enqueue(encoder.encode(rest.join('')));
+            }
+            controller.close();
+            return;
+          }
+          await sleep(POLL_INTERVAL_MS);
+        }
+        controller.close();
+      },
+    });
+
+    return new Response(stream, { headers: UI_MESSAGE_STREAM_HEADERS });
+  } catch (error) {
+    console.error('Error resuming chat stream:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
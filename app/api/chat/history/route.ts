@@ -1,33 +1,11 @@
 import { auth } from '@clerk/nextjs/server';
-import { redis } from '@/lib/database/redis';
 import { NextResponse } from 'next/server';
+import { loadChatMessagesPage } from '@/lib/database/chatStore';
 
-interface Message {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  id?: string;
-}
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
 
-// Load chat history from Redis
-async function loadChatHistory(userId: string): Promise<Message[]> {
-  if (!redis) {
-    console.warn('Redis client not available.');
-    return [];
-  }
-  const historyKey = `chat_history:${userId}`;
-  try {
-    const data = await redis.get(historyKey);
-    if (data) {
-      return JSON.parse(data as string) as Message[];
-    }
-    return [];
-  } catch (error) {
-    console.error('Error loading chat history from Redis:', error);
-    return [];
-  }
-}
-
-export async function GET() {
+export async function GET(req: Request) {
   try {
     const { userId } = await auth();
 
@@ -35,11 +13,24 @@ export async function GET() {
       return new NextResponse('Unauthorized', { status: 401 });
     }
 
-    const history = await loadChatHistory(userId);
+    const { searchParams } = new URL(req.url);
+    const chatId = searchParams.get('chatId');
+
+    if (!chatId) {
+      return NextResponse.json({ error: 'chatId is required' }, { status: 400 });
+    }
+
+    const before = searchParams.get('before');
+    const requested = Number(searchParams.get('limit') ?? DEFAULT_LIMIT);
+    const limit = Number.isFinite(requested)
+      ? Math.min(Math.max(Math.floor(requested), 1), MAX_LIMIT)
+      : DEFAULT_LIMIT;
+
+    const page = await loadChatMessagesPage(userId, chatId, { before, limit });
 
-    return NextResponse.json({ messages: history });
+    return NextResponse.json(page);
   } catch (error) {
     console.error('Error fetching chat history:', error);
     return new NextResponse('Internal Server Error', { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -1,58 +1,58 @@
-import { streamText, convertToModelMessages } from 'ai';
-import { google } from '@ai-sdk/google';
+import { streamText, convertToModelMessages, generateId, stepCountIs, type FileUIPart } from 'ai';
 import { auth } from '@clerk/nextjs/server';
+import { after } from 'next/server';
 import {
   calculatorTool,
+  createSalesReportTool,
+  createSearchAttachmentsTool,
+  currencyConverterTool,
+  fbaFeeCalculatorTool,
   imageSearchTool,
+  profitCalculatorTool,
+  readPageTool,
+  sizeTierClassifierTool,
+  symbolicMathTool,
   weatherTool,
   webSearchTool,
 } from '@/lib/ai/tools';
-import { redis } from '@/lib/database/redis';
-
-// Setup AI Model (Google Gemini)
-const aiModel = google('gemini-2.0-flash-exp');
+import {
+  findMessage,
+  loadChatTree,
+  messagePath,
+  saveChatMessages,
+} from '@/lib/database/chatStore';
+import { TOOL_CACHE_TTL_SECONDS, withToolCache } from '@/lib/ai/toolCache';
+import { createToolTrace, traceTools } from '@/lib/ai/toolTrace';
+import { listAttachments } from '@/lib/database/attachmentStore';
+import { inlineChatImages } from '@/lib/database/imageStore';
+import { chatImageId, MAX_IMAGES_PER_MESSAGE } from '@/lib/attachments/images';
+import { bufferStream, watchStreamStop } from '@/lib/database/streamStore';
+import { getDefaultModelId, isAllowedModel, resolveModel } from '@/lib/ai/models';
+import { buildModelContext } from '@/lib/ai/context';
+import type { ChatMessageMetadata, ChatUIMessage } from '@/lib/types';
+import {
+  consumeRequest,
+  getTokenQuota,
+  quotaExceededResponse,
+  recordTokenUsage,
+} from '@/lib/rateLimit';
 
 export const maxDuration = 30;
 
-interface Message {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  id?: string;
-}
-
-// Save chat history to Redis
-async function saveChatHistory(userId: string, chatId: string, messages: any[]) {
-  if (!redis) {
-    console.warn('Redis client not available. Skipping chat history save.');
-    return;
-  }
-  const historyKey = `chat:${userId}:${chatId}`;
-  try {
-    await redis.set(historyKey, JSON.stringify(messages));
-    await redis.expire(historyKey, 60 * 60 * 24 * 7); // 7 days
-  } catch (error) {
-    console.error('Error saving chat history to Redis:', error);
-  }
-}
+const SYSTEM_PROMPT = `You are a helpful FBA (Fulfillment by Amazon) assistant. You use the provided tools to answer user questions accurately. 
+When you use the webSearchTool, present the results clearly and cite your sources.
+Use the readPage tool to read the most relevant results when snippets are not enough to answer.
+For calculations, use the calculator tool. For derivatives, simplification, solving equations and integrals, use the symbolicMath tool.
+For weather information, use the weather tool. Use mode daily or hourly for forecasts, and if it reports several matching places, ask the user which one they mean.
+For image searches, use the image search tool.
+Users may attach images such as product photos, listing screenshots and Seller Central screenshots. Read them carefully and refer to what they show.
+Search, image and weather results may come from a cache. Pass fresh: true when the user asks for the latest data or to refresh.
+For Amazon referral, fulfillment and closing fees, use the fbaFeeCalculator tool instead of estimating them, and mention the assumptions it returns.
+For size tiers, dimensional weight and shipping weight, use the sizeTierClassifier tool.
+For profit, margin, ROI and breakeven ACoS, use the profitCalculator tool rather than chaining calculator calls.
+For currency conversion, use the currencyConverter tool and mention the rate date and source.`;
 
-// Load chat history from Redis
-async function loadChatHistory(userId: string, chatId: string): Promise<any[]> {
-  if (!redis) {
-    console.warn('Redis client not available. Skipping chat history load.');
-    return [];
-  }
-  const historyKey = `chat:${userId}:${chatId}`;
-  try {
-    const data = await redis.get(historyKey);
-    if (data) {
-      return JSON.parse(data as string);
-    }
-    return [];
-  } catch (error) {
-    console.error('Error loading chat history from Redis:', error);
-    return [];
-  }
-}
+const CONTINUE_PROMPT = `Your previous answer was stopped before it was finished. Continue it exactly where it left off, without repeating what you already wrote.`;
 
 export async function POST(req: Request) {
   try {
@@ -64,44 +64,196 @@ export async function POST(req: Request) {
       return new Response('Unauthorized', { status: 401 });
     }
 
-    const { messages, id: chatId } = await req.json();
+    // Per-user daily token budget and sliding-window request limit
+    const tokenQuota = await getTokenQuota(userId);
+    if (tokenQuota.remaining <= 0) {
+      return quotaExceededResponse('token_quota_exceeded', tokenQuota);
+    }
+    const requestLimit = await consumeRequest(userId);
+    if (!requestLimit.success) {
+      return quotaExceededResponse('rate_limited', requestLimit);
+    }
+
+    const { messages, id: chatId, model, editOf } = await req.json();
+
+    // Only allowlisted models from the provider registry can be requested
+    const modelId = typeof model === 'string' && model ? model : getDefaultModelId();
+    if (!isAllowedModel(modelId)) {
+      return Response.json(
+        { error: `Unknown or disabled model: ${modelId}` },
+        { status: 400 },
+      );
+    }
 
-    // Load previous chat history if chatId provided
+    // Images must be uploaded to this chat first, which enforces their size and type limits
+    const imageParts =
+      (messages[messages.length - 1] as ChatUIMessage | undefined)?.parts.filter(
+        (part): part is FileUIPart => part.type === 'file',
+      ) ?? [];
+    if (
+      imageParts.length > MAX_IMAGES_PER_MESSAGE ||
+      imageParts.some((part) => !chatId || !chatImageId(part.url, chatId))
+    ) {
+      return Response.json(
+        { error: `Attach at most ${MAX_IMAGES_PER_MESSAGE} images uploaded to this chat` },
+        { status: 400 },
+      );
+    }
+
+    // Build the branch being answered from the stored message tree
     let allMessages = messages;
     if (chatId) {
-      const history = await loadChatHistory(userId, chatId);
-      // Combine history with new message (last message is the new one)
-      if (history.length > 0) {
-        allMessages = [...history, messages[messages.length - 1]];
+      const tree = await loadChatTree(userId, chatId);
+      if (tree.messages.length > 0) {
+        const lastMessage = messages[messages.length - 1];
+        if (findMessage(tree, lastMessage.id)) {
+          // Continue or regenerate from a stored message
+          allMessages = messagePath(tree, lastMessage.id);
+        } else {
+          // New message: an edit becomes a sibling of the edited message,
+          // anything else follows the message before it
+          const parentId =
+            typeof editOf === 'string'
+              ? (findMessage(tree, editOf)?.parentId ?? null)
+              : (messages[messages.length - 2]?.id ?? tree.activeLeafId);
+          allMessages = [...messagePath(tree, parentId), lastMessage];
+        }
       }
+      // Persist the new user message now so a reload mid-generation still shows it
+      await saveChatMessages(userId, chatId, allMessages);
     }
 
+    // A trailing assistant message is continued in place instead of answered
+    const continuing = allMessages[allMessages.length - 1]?.role === 'assistant';
+    const responseMessageId = continuing
+      ? allMessages[allMessages.length - 1].id
+      : generateId();
+
+    // Stop requests from the client abort the model call and in-flight tool fetches
+    const abortController = new AbortController();
+    const stopWatching = chatId
+      ? watchStreamStop({ userId, chatId, messageId: responseMessageId, controller: abortController })
+      : () => {};
+
+    // Tell the model which files it can search in this chat
+    const attachments = chatId ? await listAttachments(userId, chatId) : [];
+    let system = continuing ? `${SYSTEM_PROMPT}\n\n${CONTINUE_PROMPT}` : SYSTEM_PROMPT;
+    if (attachments.length > 0) {
+      system += `\n\nFiles attached to this chat: ${attachments.map((a) => a.name).join(', ')}.
+Use the searchAttachments tool for questions about them and cite passages by file name and page or section.`;
+    }
+    const salesReports = attachments.filter((a) => a.salesReport);
+    if (salesReports.length > 0) {
+      system += `\nSales reports: ${salesReports.map((a) => a.name).join(', ')}. For sales figures, totals, trends and growth, use the analyzeSalesReport tool and present its table instead of computing from passages.`;
+    }
+
+    // Fit the conversation into the context budget, folding old turns into a summary
+    const languageModel = resolveModel(modelId);
+    const context = await buildModelContext({
+      userId,
+      chatId,
+      model: languageModel,
+      system,
+      messages: allMessages,
+    });
+    await recordTokenUsage(userId, context.summaryTokens);
+
     // Convert to model messages format
-    const modelMessages = convertToModelMessages(allMessages);
+    const modelMessages = convertToModelMessages(
+      chatId ? await inlineChatImages(userId, chatId, context.messages) : context.messages,
+    );
+
+    // Tool executions of this response, saved with the message; a continued
+    // answer keeps the spans recorded before it was stopped
+    const trace = createToolTrace();
+    const priorSpans = continuing
+      ? ((allMessages[allMessages.length - 1] as ChatUIMessage).metadata?.trace ?? [])
+      : [];
+    const traceSpans = () => [...priorSpans, ...trace.spans];
 
     // Stream the response
     const result = streamText({
-      model: aiModel,
+      model: languageModel,
+      system: context.system,
       messages: modelMessages,
-      system: `You are a helpful FBA (Fulfillment by Amazon) assistant. You use the provided tools to answer user questions accurately. 
-When you use the webSearchTool, present the results clearly and cite your sources.
-For calculations, use the calculator tool.
-For weather information, use the weather tool.
-For image searches, use the image search tool.`,
-      tools: {
-        webSearch: webSearchTool,
-        imageSearch: imageSearchTool,
-        weather: weatherTool,
-        calculator: calculatorTool,
+      abortSignal: abortController.signal,
+      // Let the model answer after its tool calls instead of stopping at the first step
+      stopWhen: stepCountIs(5),
+      onFinish: async ({ totalUsage }) => {
+        await recordTokenUsage(userId, totalUsage.totalTokens ?? 0);
       },
+      // Steps that completed before a stop still count against the quota
+      onAbort: async ({ steps }) => {
+        const tokens = steps.reduce((sum, step) => sum + (step.usage.totalTokens ?? 0), 0);
+        await recordTokenUsage(userId, tokens);
+      },
+      tools: traceTools(trace, {
+        webSearch: withToolCache('webSearch', webSearchTool, {
+          ttlSeconds: TOOL_CACHE_TTL_SECONDS.webSearch,
+        }),
+        readPage: readPageTool,
+        imageSearch: withToolCache('imageSearch', imageSearchTool, {
+          ttlSeconds: TOOL_CACHE_TTL_SECONDS.imageSearch,
+        }),
+        weather: withToolCache('weather', weatherTool, {
+          ttlSeconds: TOOL_CACHE_TTL_SECONDS.weather,
+        }),
+        calculator: calculatorTool,
+        symbolicMath: symbolicMathTool,
+        fbaFeeCalculator: fbaFeeCalculatorTool,
+        sizeTierClassifier: sizeTierClassifierTool,
+        profitCalculator: profitCalculatorTool,
+        currencyConverter: currencyConverterTool,
+        ...(chatId && {
+          searchAttachments: createSearchAttachmentsTool(userId, chatId),
+          analyzeSalesReport: createSalesReportTool(userId, chatId),
+        }),
+      }),
     });
 
+    // Keep generating (and persisting) even if the client disconnects
+    after(result.consumeStream());
+
     // Use toUIMessageStreamResponse for AI SDK v5
     return result.toUIMessageStreamResponse({
-      onFinish: async ({ messages: finalMessages }) => {
-        // Save updated chat history
+      originalMessages: allMessages,
+      generateMessageId: () => responseMessageId,
+      // Buffer chunks in Redis so GET /api/chat/[chatId]/stream can replay them
+      consumeSseStream: chatId
+        ? ({ stream }) => {
+            after(
+              bufferStream({ userId, chatId, messageId: responseMessageId, stream }),
+            );
+          }
+        : undefined,
+      // Record which model produced each assistant message
+      // and, once it finishes, the tool trace
+      messageMetadata: ({ part }): ChatMessageMetadata | undefined => {
+        if (part.type === 'start') return { model: modelId, createdAt: Date.now() };
+        if (part.type === 'finish' && traceSpans().length > 0) return { trace: traceSpans() };
+        return undefined;
+      },
+      onFinish: async ({ messages: finalMessages, isAborted }) => {
+        stopWatching();
+        // Save updated chat history and refresh the session index, marking a
+        // stopped answer so the client can offer to continue it
         if (chatId) {
-          await saveChatHistory(userId, chatId, finalMessages);
+          await saveChatMessages(
+            userId,
+            chatId,
+            finalMessages.map((m) =>
+              m.id === responseMessageId
+                ? {
+                    ...m,
+                    metadata: {
+                      ...(m.metadata as ChatMessageMetadata | undefined),
+                      status: isAborted ? 'stopped' : undefined,
+                      trace: traceSpans().length > 0 ? traceSpans() : undefined,
+                    } satisfies ChatMessageMetadata,
+                  }
+                : m,
+            ),
+          );
         }
       },
     });
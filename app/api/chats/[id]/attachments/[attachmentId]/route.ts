@@ -0,0 +1,27 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { deleteAttachment } from '@/lib/database/attachmentStore';
+
+type RouteContext = { params: Promise<{ id: string; attachmentId: string }> };
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id, attachmentId } = await params;
+    const removed = await deleteAttachment(userId, id, attachmentId);
+
+    if (!removed) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,140 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { chunkSections } from '@/lib/attachments/bm25';
+import { attachmentKind, extractDocument, SUPPORTED_EXTENSIONS } from '@/lib/attachments/extract';
+import {
+  listAttachments,
+  saveAttachment,
+  type AttachmentInfo,
+} from '@/lib/database/attachmentStore';
+import { parseSalesReport } from '@/lib/sales/report';
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_ATTACHMENTS_PER_CHAT = 10;
+// Keeps one attachment's chunk list within a single Redis request
+const MAX_CHUNKS_PER_FILE = 400;
+// Sales reports are stored whole for the analytics tool
+const MAX_REPORT_BYTES = 5 * 1024 * 1024;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id } = await params;
+    const attachments = await listAttachments(userId, id);
+
+    return NextResponse.json({ attachments });
+  } catch (error) {
+    console.error('Error listing attachments:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
+
+// Upload one file as multipart form data (`file`), then extract and index its text
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id } = await params;
+    const form = await req.formData().catch(() => null);
+    const file = form?.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 });
+    }
+
+    const kind = attachmentKind(file.name);
+    if (!kind) {
+      return NextResponse.json(
+        { error: `Unsupported file type. Supported: ${SUPPORTED_EXTENSIONS.join(', ')}` },
+        { status: 415 },
+      );
+    }
+
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json(
+        { error: `File is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB` },
+        { status: 413 },
+      );
+    }
+
+    const existing = await listAttachments(userId, id);
+    if (existing.length >= MAX_ATTACHMENTS_PER_CHAT) {
+      return NextResponse.json(
+        { error: `A chat can have at most ${MAX_ATTACHMENTS_PER_CHAT} attachments` },
+        { status: 409 },
+      );
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let document;
+    try {
+      document = await extractDocument(kind, bytes);
+    } catch (error) {
+      console.error('Error extracting attachment text:', error);
+      return NextResponse.json({ error: 'Could not read the file' }, { status: 422 });
+    }
+
+    // CSVs with sales columns are kept as text so the analytics tool can aggregate every row
+    const table = kind === 'csv' ? new TextDecoder().decode(bytes) : undefined;
+    const report = table ? parseSalesReport(table) : null;
+    if (report && file.size > MAX_REPORT_BYTES) {
+      return NextResponse.json(
+        { error: `Sales reports are limited to ${MAX_REPORT_BYTES / 1024 / 1024} MB` },
+        { status: 413 },
+      );
+    }
+
+    const attachmentId = nanoid();
+    let chunks = chunkSections(document.sections, { attachmentId, fileName: file.name });
+
+    if (chunks.length === 0) {
+      // Usually a scanned PDF without a text layer
+      return NextResponse.json({ error: 'No text found in the file' }, { status: 422 });
+    }
+
+    if (report) {
+      // Long reports are analysed in full, only their first rows are searchable as text
+      chunks = chunks.slice(0, MAX_CHUNKS_PER_FILE);
+    } else if (chunks.length > MAX_CHUNKS_PER_FILE) {
+      return NextResponse.json(
+        { error: `File has too much text, the limit is ${MAX_CHUNKS_PER_FILE} passages` },
+        { status: 413 },
+      );
+    }
+
+    const attachment: AttachmentInfo = {
+      id: attachmentId,
+      name: file.name,
+      kind,
+      size: file.size,
+      pageCount: document.pageCount,
+      chunkCount: chunks.length,
+      uploadedAt: Date.now(),
+      ...(report && {
+        salesReport: {
+          type: report.type,
+          rowCount: report.rows.length,
+          columns: Object.keys(report.columns),
+        },
+      }),
+    };
+    await saveAttachment(userId, id, attachment, chunks, report ? table : undefined);
+
+    return NextResponse.json({ attachment }, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
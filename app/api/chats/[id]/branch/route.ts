@@ -0,0 +1,41 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { loadChatMessagesPage, switchChatBranch } from '@/lib/database/chatStore';
+
+const PAGE_LIMIT = 50;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Make the branch through `messageId` active and return its latest page.
+// `accept: true` also records it as the chosen version of a regenerated answer.
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+
+    if (typeof body.messageId !== 'string' || !body.messageId) {
+      return NextResponse.json({ error: 'messageId is required' }, { status: 400 });
+    }
+
+    const switched = await switchChatBranch(userId, id, body.messageId, {
+      accept: body.accept === true,
+    });
+
+    if (!switched) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    const page = await loadChatMessagesPage(userId, id, { limit: PAGE_LIMIT });
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Error switching chat branch:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { deleteChatImage, loadChatImage } from '@/lib/database/imageStore';
+
+type RouteContext = { params: Promise<{ id: string; imageId: string }> };
+
+// Serves an image for thumbnails in the user's own chat
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id, imageId } = await params;
+    const image = await loadChatImage(userId, id, imageId);
+
+    if (!image) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+
+    return new NextResponse(Buffer.from(image.data, 'base64'), {
+      headers: {
+        'Content-Type': image.mediaType,
+        // Ids are never reused, so the browser can keep the image
+        'Cache-Control': 'private, max-age=604800, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Error loading image:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id, imageId } = await params;
+    const removed = await deleteChatImage(userId, id, imageId);
+
+    if (!removed) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting image:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import {
+  chatImageUrl,
+  IMAGE_MEDIA_TYPES,
+  MAX_IMAGE_BYTES,
+  MAX_IMAGES_PER_CHAT,
+  sniffImageType,
+} from '@/lib/attachments/images';
+import { countChatImages, saveChatImage, type ChatImage } from '@/lib/database/imageStore';
+
+// Upload one image as multipart form data (`file`) for a message in this chat
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id } = await params;
+    const form = await req.formData().catch(() => null);
+    const file = form?.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 });
+    }
+
+    if (file.size > MAX_IMAGE_BYTES) {
+      return NextResponse.json(
+        { error: `Image is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB` },
+        { status: 413 },
+      );
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const mediaType = sniffImageType(bytes);
+    if (!mediaType) {
+      return NextResponse.json(
+        { error: `Unsupported image type. Supported: ${IMAGE_MEDIA_TYPES.join(', ')}` },
+        { status: 415 },
+      );
+    }
+
+    if ((await countChatImages(userId, id)) >= MAX_IMAGES_PER_CHAT) {
+      return NextResponse.json(
+        { error: `A chat can have at most ${MAX_IMAGES_PER_CHAT} images` },
+        { status: 409 },
+      );
+    }
+
+    const imageId = nanoid();
+    const image: ChatImage = {
+      id: imageId,
+      name: file.name || 'pasted-image',
+      mediaType,
+      size: file.size,
+      url: chatImageUrl(id, imageId),
+    };
+    await saveChatImage(userId, id, image, bytes);
+
+    return NextResponse.json({ image }, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading image:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { updateMessageMetadata } from '@/lib/database/chatStore';
+
+type RouteContext = { params: Promise<{ id: string; messageId: string }> };
+
+// Update per-message flags, currently only `pinned`
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id, messageId } = await params;
+    const body = await req.json().catch(() => ({}));
+
+    if (typeof body.pinned !== 'boolean') {
+      return NextResponse.json({ error: 'pinned must be a boolean' }, { status: 400 });
+    }
+
+    const message = await updateMessageMetadata(userId, id, messageId, {
+      pinned: body.pinned,
+    });
+
+    if (!message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    console.error('Error updating chat message:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import {
+  deleteChatSession,
+  getChatSession,
+  loadChatMessages,
+  renameChatSession,
+} from '@/lib/database/chatStore';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id } = await params;
+    const session = await getChatSession(userId, id);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    const messages = await loadChatMessages(userId, id);
+
+    return NextResponse.json({ session, messages });
+  } catch (error) {
+    console.error('Error fetching chat session:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+
+    if (!title) {
+      return NextResponse.json({ error: 'Title is required' }, { status: 400 });
+    }
+
+    const session = await renameChatSession(userId, id, title.slice(0, 100));
+
+    if (!session) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Error renaming chat session:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { id } = await params;
+    const removed = await deleteChatSession(userId, id);
+
+    if (!removed) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting chat session:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
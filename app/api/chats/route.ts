@@ -0,0 +1,43 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { createChatSession, listChatSessions } from '@/lib/database/chatStore';
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const sessions = await listChatSessions(userId);
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('Error listing chat sessions:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const id = typeof body.id === 'string' && body.id ? body.id : nanoid();
+    const title = typeof body.title === 'string' ? body.title : undefined;
+
+    const { session, created } = await createChatSession(userId, { id, title });
+
+    // Re-posting an existing id returns that chat unchanged
+    return NextResponse.json({ session }, { status: created ? 201 : 200 });
+  } catch (error) {
+    console.error('Error creating chat session:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
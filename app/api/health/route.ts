@@ -1,16 +1,22 @@
 // app/api/health/route.ts
 
 import { NextResponse } from 'next/server';
+import { getCircuitStatuses } from '@/lib/http/circuitBreaker';
 
 const APP_VERSION = '1.0.0';
 const DEPLOYMENT_TIME = new Date().toISOString();
 
 export async function GET() {
+  // Breakers live in memory, so this shows the providers this instance has called
+  const circuits = getCircuitStatuses();
+  const degraded = circuits.some((circuit) => circuit.state !== 'closed');
+
   return NextResponse.json({
-    status: 'healthy',
+    status: degraded ? 'degraded' : 'healthy',
     service: 'FBA Dev AI Search Engine',
     version: APP_VERSION,
     deployed_at: DEPLOYMENT_TIME,
+    circuits,
     timestamp: new Date().toISOString(),
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,16 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { getAvailableModels, getDefaultModelId } from '@/lib/ai/models';
+
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return new NextResponse('Unauthorized', { status: 401 });
+  }
+
+  return NextResponse.json({
+    models: getAvailableModels(),
+    defaultModel: getDefaultModelId(),
+  });
+}
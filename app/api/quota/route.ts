@@ -0,0 +1,18 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { getQuotaStatus } from '@/lib/rateLimit';
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    return NextResponse.json(await getQuotaStatus(userId));
+  } catch (error) {
+    console.error('Error fetching quota status:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
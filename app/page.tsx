@@ -1,14 +1,89 @@
 'use client';
 import { useChat } from '@ai-sdk/react';
-import { DefaultChatTransport } from 'ai';
-import { useEffect, useRef, useState } from 'react';
-import { User, Bot, Loader2, Send, AlertCircle } from 'lucide-react';
+import { DefaultChatTransport, type FileUIPart } from 'ai';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Bot, Loader2, AlertCircle } from 'lucide-react';
 import BotMessage from '@/components/bot-message';
+import ChatInput from '@/components/ChatInput';
+import UserMessage from '@/components/user-message';
+import QuotaIndicator from '@/components/QuotaIndicator';
+import Sidebar from '@/components/Sidebar';
+import type { ModelOption } from '@/lib/ai/models';
+import type { AttachmentInfo } from '@/lib/database/attachmentStore';
+import type { ChatImage } from '@/lib/database/imageStore';
+import { MAX_IMAGE_BYTES, MAX_IMAGES_PER_MESSAGE } from '@/lib/attachments/images';
+import type { ChatUIMessage } from '@/lib/types';
+import { createChunkCountingFetch } from '@/lib/streamCursor';
 import { nanoid } from 'nanoid';
 
+const HISTORY_PAGE_SIZE = 50;
+const RECONNECT_DELAY_MS = 1000;
+
+// 429 responses from /api/chat carry a JSON body with a readable message
+function describeChatError(error: Error): string {
+  try {
+    const body = JSON.parse(error.message);
+    if (body?.message) return body.message;
+  } catch {}
+  return error.message;
+}
+
+interface HistoryPage {
+  messages: ChatUIMessage[];
+  nextCursor: string | null;
+  branches: Record<string, string[]>;
+  versions: Record<string, ChatUIMessage[]>;
+}
+
+async function fetchHistory(sessionId: string, before?: string) {
+  const params = new URLSearchParams({ chatId: sessionId, limit: String(HISTORY_PAGE_SIZE) });
+  if (before) params.set('before', before);
+  const res = await fetch(`/api/chat/history?${params}`);
+  if (!res.ok) throw new Error(`Failed to load chat history: ${res.status}`);
+  return (await res.json()) as HistoryPage;
+}
+
+async function fetchAttachments(sessionId: string) {
+  const res = await fetch(`/api/chats/${encodeURIComponent(sessionId)}/attachments`);
+  if (!res.ok) throw new Error(`Failed to load attachments: ${res.status}`);
+  return ((await res.json()) as { attachments: AttachmentInfo[] }).attachments;
+}
+
 export default function IntelligentSearchChat() {
-  const [chatId] = useState(() => nanoid());
-  const [input, setInput] = useState('');
+  const [chatId, setChatId] = useState(() => nanoid());
+  const [initialMessages, setInitialMessages] = useState<ChatUIMessage[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  // Sibling ids of messages on the shown branch that have alternatives
+  const [branches, setBranches] = useState<Record<string, string[]>>({});
+  // Stored versions of regenerated answers on the shown branch
+  const [versions, setVersions] = useState<Record<string, ChatUIMessage[]>>({});
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [selectedModel, setSelectedModel] = useState<string>();
+  const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  const [sessionsVersion, setSessionsVersion] = useState(0);
+  const [quotaVersion, setQuotaVersion] = useState(0);
+  const [attachments, setAttachments] = useState<AttachmentInfo[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  // Images uploaded for the message being written
+  const [pendingImages, setPendingImages] = useState<ChatImage[]>([]);
+
+  // SSE events received for the current generation, used as the resume cursor
+  const receivedChunksRef = useRef(0);
+  // Chat opened from history that should reattach to a generation still running
+  const resumeChatIdRef = useRef<string | null>(null);
+  const resumeStreamRef = useRef<(() => Promise<void>) | null>(null);
+
+  // A finished edit or regenerate adds a sibling, reload the branch map
+  const refreshBranches = async (sessionId: string) => {
+    try {
+      const page = await fetchHistory(sessionId);
+      setBranches(page.branches);
+      setVersions(page.versions);
+    } catch (err) {
+      console.error('Failed to refresh branches:', err);
+    }
+  };
 
   const {
     messages,
@@ -16,136 +91,462 @@ export default function IntelligentSearchChat() {
     status,
     error,
     regenerate,
-  } = useChat({
+    setMessages,
+    resumeStream,
+    stop,
+  } = useChat<ChatUIMessage>({
     id: chatId,
+    messages: initialMessages,
     transport: new DefaultChatTransport({
       api: '/api/chat',
+      fetch: createChunkCountingFetch(receivedChunksRef),
+      prepareReconnectToStreamRequest: ({ id }) => ({
+        api: `/api/chat/${encodeURIComponent(id)}/stream?cursor=${receivedChunksRef.current}`,
+      }),
     }),
+    // Server saves the session on finish, refresh the sidebar and quota afterwards
+    onFinish: () => {
+      setSessionsVersion((v) => v + 1);
+      setQuotaVersion((v) => v + 1);
+      refreshBranches(chatId);
+    },
+    onError: (err) => {
+      setQuotaVersion((v) => v + 1);
+      // Dropped connection, the server keeps generating so reattach to the buffer
+      if (err instanceof TypeError) {
+        setTimeout(() => resumeStreamRef.current?.(), RECONNECT_DELAY_MS);
+      }
+    },
   });
 
   const chatEndRef = useRef<HTMLDivElement>(null);
 
+  // Load the models the server allows
+  useEffect(() => {
+    fetch('/api/models')
+      .then((res) => (res.ok ? res.json() : Promise.reject(res.status)))
+      .then((data) => {
+        setModels(data.models);
+        setSelectedModel((current) => current ?? data.defaultModel);
+      })
+      .catch((err) => console.error('Failed to load models:', err));
+  }, []);
+
+  useEffect(() => {
+    resumeStreamRef.current = resumeStream;
+  }, [resumeStream]);
+
+  // Keep the open chat in the URL so a reload lands back in it
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('chat', chatId);
+    window.history.replaceState(null, '', url);
+  }, [chatId]);
+
+  // Reattach once useChat has switched to a chat opened from history
+  useEffect(() => {
+    if (resumeChatIdRef.current !== chatId) return;
+    resumeChatIdRef.current = null;
+    resumeStream();
+  }, [chatId, resumeStream]);
+
+  // Rehydrate useChat with the latest page of stored messages
+  const openChat = useCallback(async (sessionId: string) => {
+    try {
+      const [page, sessionAttachments] = await Promise.all([
+        fetchHistory(sessionId),
+        fetchAttachments(sessionId).catch((err) => {
+          console.error('Failed to load attachments:', err);
+          return [];
+        }),
+      ]);
+      receivedChunksRef.current = 0;
+      resumeChatIdRef.current = sessionId;
+      setInitialMessages(page.messages);
+      setHistoryCursor(page.nextCursor);
+      setBranches(page.branches);
+      setVersions(page.versions);
+      setAttachments(sessionAttachments);
+      setAttachmentError(null);
+      setPendingImages([]);
+      setChatId(sessionId);
+    } catch (err) {
+      console.error('Failed to open chat session:', err);
+    }
+  }, []);
+
+  // Reopen the chat from the URL after a reload
+  useEffect(() => {
+    const sessionId = new URLSearchParams(window.location.search).get('chat');
+    if (sessionId) openChat(sessionId);
+  }, [openChat]);
+
   // Auto-scroll effect
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || status !== 'ready') return;
+  const handleNewChat = () => {
+    setInitialMessages([]);
+    setHistoryCursor(null);
+    setBranches({});
+    setVersions({});
+    setAttachments([]);
+    setAttachmentError(null);
+    setPendingImages([]);
+    setChatId(nanoid());
+  };
+
+  const handleSessionSelect = async (sessionId: string) => {
+    if (sessionId === chatId) return;
+    await openChat(sessionId);
+  };
+
+  const handleLoadEarlier = async () => {
+    if (!historyCursor) return;
+    try {
+      const page = await fetchHistory(chatId, historyCursor);
+      setMessages((current) => [...page.messages, ...current]);
+      setHistoryCursor(page.nextCursor);
+      setBranches((current) => ({ ...page.branches, ...current }));
+      setVersions((current) => ({ ...page.versions, ...current }));
+    } catch (err) {
+      console.error('Failed to load earlier messages:', err);
+    }
+  };
+
+  // Pinned messages stay verbatim in the model context
+  const handleTogglePin = async (message: ChatUIMessage) => {
+    const pinned = !message.metadata?.pinned;
+    try {
+      const res = await fetch(
+        `/api/chats/${encodeURIComponent(chatId)}/messages/${encodeURIComponent(message.id)}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ pinned }),
+        },
+      );
+      if (!res.ok) throw new Error(`Failed to update message: ${res.status}`);
+      setMessages((current) =>
+        current.map((m) =>
+          m.id === message.id ? { ...m, metadata: { ...m.metadata, pinned } } : m,
+        ),
+      );
+    } catch (err) {
+      console.error('Failed to toggle pin:', err);
+    }
+  };
+
+  // Files are uploaded one at a time, the server extracts and indexes each
+  const handleAttach = async (files: File[]) => {
+    setUploading(true);
+    setAttachmentError(null);
+    try {
+      for (const file of files) {
+        const body = new FormData();
+        body.append('file', file);
+        const res = await fetch(`/api/chats/${encodeURIComponent(chatId)}/attachments`, {
+          method: 'POST',
+          body,
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => null);
+          throw new Error(`${file.name}: ${data?.error ?? `upload failed (${res.status})`}`);
+        }
+        const { attachment } = (await res.json()) as { attachment: AttachmentInfo };
+        setAttachments((current) => [...current, attachment]);
+      }
+    } catch (err) {
+      console.error('Failed to upload attachment:', err);
+      setAttachmentError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemoveAttachment = async (attachmentId: string) => {
+    try {
+      const res = await fetch(
+        `/api/chats/${encodeURIComponent(chatId)}/attachments/${encodeURIComponent(attachmentId)}`,
+        { method: 'DELETE' },
+      );
+      if (!res.ok && res.status !== 404) {
+        throw new Error(`Failed to remove attachment: ${res.status}`);
+      }
+      setAttachments((current) => current.filter((a) => a.id !== attachmentId));
+    } catch (err) {
+      console.error('Failed to remove attachment:', err);
+    }
+  };
+
+  // Images are uploaded to the chat right away, the message only carries their URLs
+  const handleAddImages = async (files: File[]) => {
+    setAttachmentError(null);
+    const room = MAX_IMAGES_PER_MESSAGE - pendingImages.length;
+    if (files.length > room) {
+      setAttachmentError(`A message can have at most ${MAX_IMAGES_PER_MESSAGE} images`);
+    }
+    setUploading(true);
+    try {
+      for (const file of files.slice(0, Math.max(0, room))) {
+        if (file.size > MAX_IMAGE_BYTES) {
+          throw new Error(`${file.name}: larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+        }
+        const body = new FormData();
+        body.append('file', file);
+        const res = await fetch(`/api/chats/${encodeURIComponent(chatId)}/images`, {
+          method: 'POST',
+          body,
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => null);
+          throw new Error(`${file.name}: ${data?.error ?? `upload failed (${res.status})`}`);
+        }
+        const { image } = (await res.json()) as { image: ChatImage };
+        setPendingImages((current) => [...current, image]);
+      }
+    } catch (err) {
+      console.error('Failed to upload image:', err);
+      setAttachmentError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemoveImage = (imageId: string) => {
+    setPendingImages((current) => current.filter((image) => image.id !== imageId));
+    fetch(`/api/chats/${encodeURIComponent(chatId)}/images/${encodeURIComponent(imageId)}`, {
+      method: 'DELETE',
+    }).catch((err) => console.error('Failed to remove image:', err));
+  };
+
+  const handleSend = async (text: string) => {
+    if (status !== 'ready') return;
+    const files: FileUIPart[] = pendingImages.map((image) => ({
+      type: 'file',
+      mediaType: image.mediaType,
+      url: image.url,
+      filename: image.name,
+    }));
+    setPendingImages([]);
+    await sendMessage(text ? { text, files } : { files }, { body: { model: selectedModel } });
+  };
+
+  // Resend an edited user message, the original and its replies stay as a branch
+  const handleEditMessage = async (message: ChatUIMessage, text: string) => {
+    if (status !== 'ready') return;
+    const index = messages.findIndex((m) => m.id === message.id);
+    if (index === -1) return;
+    setMessages(messages.slice(0, index));
+    // Images of the original message stay with the edit
+    const files = message.parts.filter((part): part is FileUIPart => part.type === 'file');
+    await sendMessage({ text, files }, { body: { model: selectedModel, editOf: message.id } });
+  };
+
+  // Switch the shown branch, `accept` also records a chosen answer version
+  const handleSelectBranch = async (messageId: string, accept = false) => {
+    if (status !== 'ready') return;
+    try {
+      const res = await fetch(`/api/chats/${encodeURIComponent(chatId)}/branch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId, accept }),
+      });
+      if (!res.ok) throw new Error(`Failed to switch branch: ${res.status}`);
+      const page = (await res.json()) as HistoryPage;
+      setMessages(page.messages);
+      setHistoryCursor(page.nextCursor);
+      setBranches(page.branches);
+      setVersions(page.versions);
+      setSessionsVersion((v) => v + 1);
+    } catch (err) {
+      console.error('Failed to switch branch:', err);
+    }
+  };
+
+  const isGenerating = status === 'submitted' || status === 'streaming';
+
+  // Aborting the request alone is not enough, the server keeps generating for
+  // resumable streams, so ask it to stop as well
+  const handleStop = async () => {
+    await stop();
+    setMessages((current) =>
+      current.map((m, index) =>
+        index === current.length - 1 && m.role === 'assistant'
+          ? { ...m, metadata: { ...m.metadata, status: 'stopped' } }
+          : m,
+      ),
+    );
+    try {
+      await fetch(`/api/chat/${encodeURIComponent(chatId)}/stop`, { method: 'POST' });
+    } catch (err) {
+      console.error('Failed to stop generation:', err);
+    }
+    setSessionsVersion((v) => v + 1);
+  };
 
-    sendMessage({ text: input });
-    setInput('');
+  // Sending without a new message continues the trailing stopped answer
+  const handleContinue = async () => {
+    if (status !== 'ready') return;
+    setMessages((current) =>
+      current.map((m, index) =>
+        index === current.length - 1
+          ? { ...m, metadata: { ...m.metadata, status: undefined } }
+          : m,
+      ),
+    );
+    await sendMessage(undefined, { body: { model: selectedModel } });
   };
 
   return (
-    <div className="flex h-screen flex-col bg-gray-50">
-      {/* Header */}
-      <div className="border-b bg-white px-6 py-4 shadow-sm">
-        <h1 className="text-2xl font-bold text-gray-900">
-          FBA Intelligent Search Chat
-        </h1>
-        <p className="mt-1 text-sm text-gray-600">
-          Ask questions about FBA processes, data, and insights.
-        </p>
+    <div className="flex h-screen">
+      <div className="hidden lg:flex">
+        <Sidebar
+          currentSessionId={chatId}
+          onSessionSelect={handleSessionSelect}
+          onNewChat={handleNewChat}
+          isCollapsed={sidebarCollapsed}
+          onToggleCollapse={() => setSidebarCollapsed((c) => !c)}
+          refreshKey={sessionsVersion}
+        />
       </div>
-
-      {/* Chat Area */}
-      <div className="flex-1 p-4 overflow-y-auto space-y-4">
-        {/* Initial Welcome Message */}
-        {messages.length === 0 && status === 'ready' && (
-          <div className="text-center py-10 text-gray-500">
-            <Bot className="w-12 h-12 mx-auto text-indigo-400" />
-            <p className="mt-2 text-lg font-semibold">
-              How can I assist you with FBA data today?
-            </p>
-            <p className="text-sm mt-1">
-              Start by asking a question, like &quot;What are the sales trends for the
-              last quarter?&quot;
-            </p>
-          </div>
-        )}
-
-        {/* Messages */}
-        {messages.map((message) => (
-          <div
-            key={message.id}
-            className={`flex ${
-              message.role === 'user' ? 'justify-end' : 'justify-start'
-            }`}
-          >
-            {message.role === 'user' ? (
-              <div className="flex items-start gap-3 p-3 bg-white rounded-lg shadow-sm max-w-2xl">
-                <div className="text-gray-800 text-sm font-medium whitespace-pre-wrap">
-                  {message.parts.map((part, index) => {
-                    if (part.type === 'text') {
-                      return <span key={index}>{part.text}</span>;
-                    }
-                    return null;
-                  })}
-                </div>
-                <User className="w-6 h-6 text-gray-500 shrink-0" />
-              </div>
-            ) : (
-              <BotMessage message={message} />
-            )}
+      <div className="flex flex-1 flex-col bg-gray-50">
+        {/* Header */}
+        <div className="border-b bg-white px-6 py-4 shadow-sm">
+          <h1 className="text-2xl font-bold text-gray-900">
+            FBA Intelligent Search Chat
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Ask questions about FBA processes, data, and insights.
+          </p>
+          <div className="mt-2">
+            <QuotaIndicator refreshKey={quotaVersion} />
           </div>
-        ))}
-
-        {/* Loading Indicator */}
-        {(status === 'submitted' || status === 'streaming') && (
-          <div className="flex justify-start">
-            <div className="flex items-start gap-3 p-3 bg-gray-50 rounded-lg shadow-sm">
-              <Loader2 className="w-6 h-6 text-indigo-500 shrink-0 animate-spin" />
-              <p className="text-gray-800 text-sm font-medium">
-                AI is generating response...
+        </div>
+
+        {/* Chat Area */}
+        <div className="flex-1 p-4 overflow-y-auto space-y-4">
+          {/* Initial Welcome Message */}
+          {messages.length === 0 && status === 'ready' && (
+            <div className="text-center py-10 text-gray-500">
+              <Bot className="w-12 h-12 mx-auto text-indigo-400" />
+              <p className="mt-2 text-lg font-semibold">
+                How can I assist you with FBA data today?
+              </p>
+              <p className="text-sm mt-1">
+                Start by asking a question, like &quot;What are the sales trends for the
+                last quarter?&quot;
+              </p>
+              <p className="text-xs mt-1">
+                Attach a Business Report or order report CSV with the paperclip for sales
+                figures.
               </p>
             </div>
-          </div>
-        )}
-
-        {/* Error Display */}
-        {error && (
-          <div className="flex justify-start">
-            <div className="flex items-start gap-3 p-3 bg-red-50 rounded-lg shadow-sm max-w-2xl">
-              <AlertCircle className="w-6 h-6 text-red-500 shrink-0" />
-              <div>
-                <p className="text-red-700 text-sm font-medium">
-                  An error occurred: {error.message}
+          )}
+
+          {historyCursor && (
+            <div className="text-center">
+              <button
+                onClick={handleLoadEarlier}
+                className="text-sm text-indigo-600 hover:text-indigo-800 underline"
+              >
+                Load earlier messages
+              </button>
+            </div>
+          )}
+
+          {/* Messages */}
+          {messages.map((message) => (
+            <div
+              key={message.id}
+              className={`flex ${
+                message.role === 'user' ? 'justify-end' : 'justify-start'
+              }`}
+            >
+              {message.role === 'user' ? (
+                <UserMessage
+                  message={message}
+                  onTogglePin={status === 'ready' ? () => handleTogglePin(message) : undefined}
+                  onEdit={status === 'ready' ? (text) => handleEditMessage(message, text) : undefined}
+                  siblingIds={branches[message.id]}
+                  onSelectBranch={status === 'ready' ? handleSelectBranch : undefined}
+                />
+              ) : (
+                <BotMessage
+                  message={message}
+                  onTogglePin={status === 'ready' ? () => handleTogglePin(message) : undefined}
+                  onContinue={
+                    status === 'ready' && message.id === messages[messages.length - 1].id
+                      ? handleContinue
+                      : undefined
+                  }
+                  onRegenerate={
+                    status === 'ready' && message.id === messages[messages.length - 1].id
+                      ? () => regenerate({ body: { model: selectedModel } })
+                      : undefined
+                  }
+                  versions={versions[message.id]}
+                  onAcceptVersion={
+                    status === 'ready' ? (id) => handleSelectBranch(id, true) : undefined
+                  }
+                />
+              )}
+            </div>
+          ))}
+
+          {/* Loading Indicator */}
+          {isGenerating && (
+            <div className="flex justify-start">
+              <div className="flex items-start gap-3 p-3 bg-gray-50 rounded-lg shadow-sm">
+                <Loader2 className="w-6 h-6 text-indigo-500 shrink-0 animate-spin" />
+                <p className="text-gray-800 text-sm font-medium">
+                  AI is generating response...
                 </p>
-                <button
-                  onClick={() => regenerate()}
-                  className="mt-2 text-sm text-red-600 hover:text-red-800 underline"
-                >
-                  Try again
-                </button>
               </div>
             </div>
-          </div>
-        )}
+          )}
 
-        <div ref={chatEndRef} />
-      </div>
+          {/* Error Display */}
+          {error && (
+            <div className="flex justify-start">
+              <div className="flex items-start gap-3 p-3 bg-red-50 rounded-lg shadow-sm max-w-2xl">
+                <AlertCircle className="w-6 h-6 text-red-500 shrink-0" />
+                <div>
+                  <p className="text-red-700 text-sm font-medium">
+                    An error occurred: {describeChatError(error)}
+                  </p>
+                  <button
+                    onClick={() => regenerate({ body: { model: selectedModel } })}
+                    className="mt-2 text-sm text-red-600 hover:text-red-800 underline"
+                  >
+                    Try again
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div ref={chatEndRef} />
+        </div>
 
-      {/* Input Area */}
-      <div className="p-4 border-t bg-gray-50">
-        <form onSubmit={handleSubmit} className="flex space-x-3">
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            placeholder="Send a message..."
-            className="flex-1 p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition duration-150"
-            disabled={status !== 'ready'}
-          />
-          <button
-            type="submit"
-            disabled={!input.trim() || status !== 'ready'}
-            className="p-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 disabled:bg-indigo-300 transition duration-150 shadow-md"
-          >
-            <Send className="w-6 h-6" />
-          </button>
-        </form>
+        {/* Input Area */}
+        <ChatInput
+          onSend={handleSend}
+          disabled={status !== 'ready'}
+          onStop={isGenerating ? handleStop : undefined}
+          models={models}
+          selectedModel={selectedModel}
+          onModelChange={setSelectedModel}
+          attachments={attachments}
+          onAttach={handleAttach}
+          onRemoveAttachment={handleRemoveAttachment}
+          uploading={uploading}
+          attachmentError={attachmentError}
+          images={pendingImages}
+          onAddImages={handleAddImages}
+          onRemoveImage={handleRemoveImage}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,45 @@
+"use client";
+import React from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface BranchNavigatorProps {
+  siblingIds: string[];
+  currentId: string;
+  onSelect: (messageId: string) => void;
+  disabled?: boolean;
+}
+
+// "2/3" pager between alternative versions of a message
+export default function BranchNavigator({
+  siblingIds,
+  currentId,
+  onSelect,
+  disabled = false,
+}: BranchNavigatorProps) {
+  const index = siblingIds.indexOf(currentId);
+  if (siblingIds.length < 2 || index === -1) return null;
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-500">
+      <button
+        onClick={() => onSelect(siblingIds[index - 1])}
+        disabled={disabled || index === 0}
+        className="hover:text-gray-800 disabled:opacity-40"
+        title="Previous version"
+      >
+        <ChevronLeft className="h-3.5 w-3.5" />
+      </button>
+      <span>
+        {index + 1}/{siblingIds.length}
+      </span>
+      <button
+        onClick={() => onSelect(siblingIds[index + 1])}
+        disabled={disabled || index === siblingIds.length - 1}
+        className="hover:text-gray-800 disabled:opacity-40"
+        title="Next version"
+      >
+        <ChevronRight className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
@@ -2,30 +2,69 @@
 import React, { useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { ModelOption } from "@/lib/ai/models";
+import type { AttachmentInfo } from "@/lib/database/attachmentStore";
+import type { ChatImage } from "@/lib/database/imageStore";
+import { IMAGE_MEDIA_TYPES } from "@/lib/attachments/images";
 import { 
   Send, 
   Paperclip, 
   ChevronDown,
-  Loader2
+  Check,
+  Square,
+  FileText,
+  Loader2,
+  X
 } from "lucide-react";
 
+const ATTACHMENT_ACCEPT = [".pdf,.docx,.md,.markdown,.csv", ...IMAGE_MEDIA_TYPES].join(",");
+const isImage = (file: File) => file.type.startsWith("image/");
+
 interface ChatInputProps {
   onSend: (message: string) => Promise<void>;
   disabled?: boolean;
   placeholder?: string;
+  models?: ModelOption[];
+  selectedModel?: string;
+  onModelChange?: (modelId: string) => void;
+  onStop?: () => void; // shown instead of send while a response is generating
+  attachments?: AttachmentInfo[];
+  onAttach?: (files: File[]) => void;
+  onRemoveAttachment?: (attachmentId: string) => void;
+  uploading?: boolean;
+  attachmentError?: string | null;
+  images?: ChatImage[]; // uploaded, sent with the next message
+  onAddImages?: (files: File[]) => void;
+  onRemoveImage?: (imageId: string) => void;
 }
 
 export default function ChatInput({ 
   onSend, 
   disabled = false, 
-  placeholder = "Send a message..." 
+  placeholder = "Send a message...",
+  models = [],
+  selectedModel,
+  onModelChange,
+  onStop,
+  attachments = [],
+  onAttach,
+  onRemoveAttachment,
+  uploading = false,
+  attachmentError,
+  images = [],
+  onAddImages,
+  onRemoveImage
 }: ChatInputProps) {
   const [message, setMessage] = useState("");
+  const [modelMenuOpen, setModelMenuOpen] = useState(false);
+  const currentModel = models.find((m) => m.id === selectedModel);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!message.trim() || disabled) return;
+    if ((!message.trim() && images.length === 0) || disabled) return;
 
     const messageToSend = message.trim();
     setMessage("");
@@ -54,15 +93,98 @@ export default function ChatInput({
     textarea.style.height = `${Math.min(textarea.scrollHeight, 120)}px`;
   };
 
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Clear so picking the same file again still fires a change
+    e.target.value = "";
+    const imageFiles = files.filter(isImage);
+    const documents = files.filter((file) => !isImage(file));
+    if (imageFiles.length > 0) onAddImages?.(imageFiles);
+    if (documents.length > 0) onAttach?.(documents);
+  };
+
+  // Screenshots pasted from the clipboard are sent as images
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const imageFiles = Array.from(e.clipboardData.files).filter(isImage);
+    if (imageFiles.length === 0 || !onAddImages) return;
+    e.preventDefault();
+    onAddImages(imageFiles);
+  };
+
   return (
     <div className="border-t p-4 bg-background">
+      {/* Attached files */}
+      {(attachments.length > 0 || images.length > 0 || uploading || attachmentError) && (
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          {images.map((image) => (
+            <div key={image.id} className="relative">
+              <img
+                src={image.url}
+                alt={image.name}
+                className="h-12 w-12 rounded-md border object-cover"
+              />
+              {onRemoveImage && (
+                <button
+                  type="button"
+                  onClick={() => onRemoveImage(image.id)}
+                  className="absolute -right-1.5 -top-1.5 rounded-full border bg-background p-0.5 text-muted-foreground hover:text-foreground"
+                  title="Remove image"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          ))}
+          {attachments.map((attachment) => (
+            <span
+              key={attachment.id}
+              className="inline-flex items-center gap-1 rounded-full border bg-muted/50 px-2.5 py-1 text-xs"
+              title={`${attachment.chunkCount} passages${attachment.pageCount ? `, ${attachment.pageCount} pages` : ""}`}
+            >
+              <FileText className="h-3 w-3 text-muted-foreground" />
+              <span className="max-w-48 truncate">{attachment.name}</span>
+              {onRemoveAttachment && (
+                <button
+                  type="button"
+                  onClick={() => onRemoveAttachment(attachment.id)}
+                  className="text-muted-foreground hover:text-foreground"
+                  title="Remove attachment"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </span>
+          ))}
+          {uploading && (
+            <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Reading file...
+            </span>
+          )}
+          {attachmentError && (
+            <span className="text-xs text-destructive">{attachmentError}</span>
+          )}
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="flex items-end space-x-3">
         {/* Attachment button */}
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          onChange={handleFilesSelected}
+          className="hidden"
+        />
         <Button
           type="button"
           variant="ghost"
           size="icon"
           className="flex-shrink-0 h-10 w-10"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={(!onAttach && !onAddImages) || uploading}
+          title="Attach images, PDF, DOCX, Markdown or CSV"
         >
           <Paperclip className="h-4 w-4" />
         </Button>
@@ -74,38 +196,71 @@ export default function ChatInput({
             value={message}
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
             placeholder={placeholder}
             disabled={disabled}
-            className="min-h-[44px] max-h-[120px] resize-none pr-20 bg-background"
+            className="min-h-[44px] max-h-[120px] resize-none pr-44 bg-background"
             rows={1}
           />
 
-          {/* Model selection (like Grok Vision) */}
-          <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex items-center space-x-2">
-            <span className="text-sm text-muted-foreground">Grok Vision</span>
-            <Button
-              type="button"
-              variant="ghost"
-              size="icon"
-              className="h-6 w-6"
-            >
-              <ChevronDown className="h-3 w-3" />
-            </Button>
-          </div>
+          {/* Model selection */}
+          {models.length > 0 && (
+            <div className="absolute right-2 top-1/2 transform -translate-y-1/2">
+              <Popover open={modelMenuOpen} onOpenChange={setModelMenuOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 max-w-40 px-2 text-muted-foreground"
+                  >
+                    <span className="truncate text-sm">{currentModel?.label ?? "Select model"}</span>
+                    <ChevronDown className="h-3 w-3" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-64 p-1">
+                  {models.map((model) => (
+                    <Button
+                      key={model.id}
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        onModelChange?.(model.id);
+                        setModelMenuOpen(false);
+                      }}
+                      className="w-full justify-between"
+                    >
+                      <span className="truncate">{model.label}</span>
+                      {model.id === selectedModel && <Check className="h-4 w-4" />}
+                    </Button>
+                  ))}
+                </PopoverContent>
+              </Popover>
+            </div>
+          )}
         </div>
 
-        {/* Send button */}
-        <Button
-          type="submit"
-          disabled={disabled || !message.trim()}
-          className="flex-shrink-0 h-10 w-10"
-        >
-          {disabled ? (
-            <Loader2 className="h-4 w-4 animate-spin" />
-          ) : (
+        {/* Send / stop button */}
+        {disabled && onStop ? (
+          <Button
+            type="button"
+            onClick={onStop}
+            variant="secondary"
+            className="flex-shrink-0 h-10 w-10"
+            title="Stop generating"
+          >
+            <Square className="h-4 w-4 fill-current" />
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            disabled={disabled || (!message.trim() && images.length === 0)}
+            className="flex-shrink-0 h-10 w-10"
+          >
             <Send className="h-4 w-4" />
-          )}
-        </Button>
+          </Button>
+        )}
       </form>
     </div>
   );
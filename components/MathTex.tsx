@@ -0,0 +1,27 @@
+"use client";
+import React, { useMemo } from "react";
+import katex from "katex";
+import "katex/dist/katex.min.css";
+
+interface MathTexProps {
+  latex: string;
+  display?: boolean;
+  className?: string;
+}
+
+// Typesets LaTeX from tool output; malformed input renders as red source text
+export default function MathTex({ latex, display = false, className }: MathTexProps) {
+  const html = useMemo(
+    () =>
+      katex.renderToString(latex, {
+        displayMode: display,
+        throwOnError: false,
+        trust: false,
+        maxSize: 20,
+        maxExpand: 200,
+      }),
+    [latex, display],
+  );
+
+  return <span className={className} dangerouslySetInnerHTML={{ __html: html }} />;
+}
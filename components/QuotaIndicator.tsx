@@ -0,0 +1,42 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import type { QuotaStatus } from "@/lib/rateLimit";
+import { Gauge } from "lucide-react";
+
+interface QuotaIndicatorProps {
+  refreshKey?: number;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens);
+
+export default function QuotaIndicator({ refreshKey = 0 }: QuotaIndicatorProps) {
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+
+  useEffect(() => {
+    fetch("/api/quota")
+      .then((res) => (res.ok ? res.json() : Promise.reject(res.status)))
+      .then(setQuota)
+      .catch((error) => console.error("Failed to load quota:", error));
+  }, [refreshKey]);
+
+  if (!quota) return null;
+
+  const { requests, tokens } = quota;
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-500">
+      <Gauge className="h-4 w-4" />
+      <span title={`Request window resets at ${formatTime(requests.reset)}`}>
+        {requests.remaining}/{requests.limit} requests
+      </span>
+      <span>•</span>
+      <span title={`Token budget resets at ${formatTime(tokens.reset)}`}>
+        {formatTokens(tokens.remaining)} tokens left today (resets {formatTime(tokens.reset)})
+      </span>
+    </div>
+  );
+}
@@ -1,16 +1,18 @@
 "use client";
-import React, { useState } from "react";
+import React, { useCallback, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { ChatSession, getChatSessions, deleteSession, clearAllSessions } from "@/lib/chatSessions";
+import { Input } from "@/components/ui/input";
+import { ChatSessionSummary, fetchChatSessions, removeChatSession, renameChatSession } from "@/lib/chatSessions";
 import { UserButton, useUser, SignedIn, SignedOut } from "@clerk/nextjs";
 import { demoProfile } from "@/lib/demoProfile";
 import { useTheme } from "@/lib/theme";
 import { 
   Plus, 
   Trash2, 
+  Pencil, 
   MessageSquare, 
   Lock, 
   ChevronDown,
@@ -29,6 +31,7 @@ interface SidebarProps {
   onNewChat: () => void;
   isCollapsed: boolean;
   onToggleCollapse: () => void;
+  refreshKey?: number;
 }
 
 export default function Sidebar({ 
@@ -36,34 +39,43 @@ export default function Sidebar({
   onSessionSelect, 
   onNewChat, 
   isCollapsed, 
-  onToggleCollapse 
+  onToggleCollapse,
+  refreshKey = 0
 }: SidebarProps) {
   const { user } = useUser();
   const { theme, setTheme } = useTheme();
-  const [sessions, setSessions] = useState<ChatSession[]>(getChatSessions());
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [sessionToDelete, setSessionToDelete] = useState<string | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
 
-  // Refresh sessions when they change
-  React.useEffect(() => {
-    const handleStorageChange = () => {
-      setSessions(getChatSessions());
-    };
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
+  const loadSessions = useCallback(() => {
+    fetchChatSessions()
+      .then(setSessions)
+      .catch((error) => console.error("Failed to load chat sessions:", error));
   }, []);
 
+  // Refresh sessions from the server when the parent signals a change
+  React.useEffect(() => {
+    loadSessions();
+  }, [loadSessions, refreshKey]);
+
   const handleDeleteSession = (sessionId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setSessionToDelete(sessionId);
     setDeleteDialogOpen(true);
   };
 
-  const confirmDeleteSession = () => {
+  const confirmDeleteSession = async () => {
     if (sessionToDelete) {
-      deleteSession(sessionToDelete);
-      setSessions(getChatSessions());
+      try {
+        await removeChatSession(sessionToDelete);
+      } catch (error) {
+        console.error("Failed to delete chat session:", error);
+      }
+      loadSessions();
       if (currentSessionId === sessionToDelete) {
         onNewChat();
       }
@@ -72,12 +84,35 @@ export default function Sidebar({
     }
   };
 
-  const handleClearAll = () => {
-    clearAllSessions();
+  const handleClearAll = async () => {
+    try {
+      await Promise.all(sessions.map((session) => removeChatSession(session.id)));
+    } catch (error) {
+      console.error("Failed to clear chat sessions:", error);
+    }
     setSessions([]);
     onNewChat();
   };
 
+  const startRename = (session: ChatSessionSummary, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditingId(session.id);
+    setEditingTitle(session.title);
+  };
+
+  const commitRename = async () => {
+    const sessionId = editingId;
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (!sessionId || !title) return;
+    try {
+      const updated = await renameChatSession(sessionId, title);
+      setSessions((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+    } catch (error) {
+      console.error("Failed to rename chat session:", error);
+    }
+  };
+
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -212,13 +247,36 @@ export default function Sidebar({
                 >
                   <div className="flex items-center justify-between">
                     <div className="flex-1 min-w-0">
-                      <div className="text-sm font-medium truncate">
-                        {session.title}
-                      </div>
+                      {editingId === session.id ? (
+                        <Input
+                          autoFocus
+                          value={editingTitle}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={(e) => setEditingTitle(e.target.value)}
+                          onBlur={commitRename}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") commitRename();
+                            if (e.key === "Escape") setEditingId(null);
+                          }}
+                          className="h-7 text-sm"
+                        />
+                      ) : (
+                        <div className="text-sm font-medium truncate">
+                          {session.title}
+                        </div>
+                      )}
                       <div className="text-xs text-muted-foreground">
-                        {formatTime(session.updatedAt)}
+                        {formatTime(session.updatedAt)} · {session.messageCount} messages
                       </div>
                     </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                      onClick={(e) => startRename(session, e)}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
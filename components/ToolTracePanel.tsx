@@ -0,0 +1,80 @@
+"use client";
+import React, { useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import type { ToolSpan } from "@/lib/ai/toolTrace";
+
+interface ToolTracePanelProps {
+  spans: ToolSpan[];
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+// Pretty-prints stored JSON, falling back to the raw text when it was cut off
+function formatJson(value: unknown): string {
+  if (typeof value !== "string") return JSON.stringify(value, null, 2);
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
+
+// Collapsible list of the tool calls behind an answer, for checking what tools returned
+export default function ToolTracePanel({ spans }: ToolTracePanelProps) {
+  const [open, setOpen] = useState(false);
+  if (spans.length === 0) return null;
+  const failed = spans.filter((span) => span.error).length;
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        className="flex items-center gap-1 text-gray-500 hover:text-gray-800"
+      >
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        {open ? "Hide steps" : "Show steps"} ({spans.length}
+        {failed > 0 && <span className="text-red-600">, {failed} failed</span>})
+      </button>
+      {open && (
+        <ol className="mt-2 space-y-2">
+          {spans.map((span) => (
+            <li key={span.toolCallId} className="rounded-md border border-gray-200 bg-white p-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-mono font-medium text-gray-800">{span.name}</span>
+                <span className="text-gray-500">{formatDuration(span.durationMs)}</span>
+                {span.cache && (
+                  <span
+                    className={`rounded px-1 ${
+                      span.cache === "hit"
+                        ? "bg-green-50 text-green-700"
+                        : "bg-gray-100 text-gray-600"
+                    }`}
+                  >
+                    cache {span.cache}
+                  </span>
+                )}
+                {span.error && <span className="text-red-600">{span.error}</span>}
+              </div>
+              <details className="mt-1">
+                <summary className="cursor-pointer text-gray-500">Input</summary>
+                <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap break-all rounded bg-gray-50 p-1.5 text-[11px]">
+                  {formatJson(span.input)}
+                </pre>
+              </details>
+              {span.output !== undefined && (
+                <details className="mt-1">
+                  <summary className="cursor-pointer text-gray-500">
+                    Output{span.outputTruncated && " (truncated)"}
+                  </summary>
+                  <pre className="mt-1 max-h-60 overflow-auto whitespace-pre-wrap break-all rounded bg-gray-50 p-1.5 text-[11px]">
+                    {formatJson(span.output)}
+                  </pre>
+                </details>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
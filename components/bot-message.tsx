@@ -1,25 +1,44 @@
 'use client';
 
-import { Bot, Loader2, Image as ImageIcon, Search, Calculator, Cloud } from 'lucide-react';
+import { useState } from 'react';
+import { Bot, Loader2, Image as ImageIcon, Search, Calculator, Cloud, Pin, Play, RotateCcw, Check, Receipt, Ruler, TrendingUp, ArrowRightLeft, BookOpen, Sigma, FileText, BarChart3 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import BranchNavigator from '@/components/BranchNavigator';
+import MathTex from '@/components/MathTex';
+import ToolTracePanel from '@/components/ToolTracePanel';
+import type { ProfitAtPrice } from '@/lib/fba/profit';
+import type { SymbolicStep } from '@/lib/math/sandbox';
+import type { SalesTable } from '@/lib/sales/aggregate';
+import type { DailyForecast, HourlyForecast } from '@/lib/weather/openMeteo';
+import type { ChatMessageMetadata } from '@/lib/types';
 
 type MessagePart = {
   type: string;
   text?: string;
   toolCallId?: string;
   toolName?: string;
+  state?: string;
   args?: any;
   result?: any;
   [key: string]: any;
 };
 
+type DisplayMessage = {
+  id: string;
+  role: string;
+  parts: MessagePart[];
+  metadata?: ChatMessageMetadata;
+};
+
 type BotMessageProps = {
-  message: {
-    id: string;
-    role: string;
-    parts: MessagePart[];
-  };
+  message: DisplayMessage;
+  onTogglePin?: () => void;
+  onContinue?: () => void;
+  onRegenerate?: () => void;
+  // Other versions of this answer from earlier regenerations, paged locally
+  versions?: DisplayMessage[];
+  onAcceptVersion?: (messageId: string) => void;
 };
 
 // Helper to get a user-friendly name for the tool
@@ -32,14 +51,75 @@ function getToolInfo(toolName: string, args: any): { icon: React.ReactNode; text
       return { icon: <ImageIcon className="h-4 w-4" />, text: `Searching images for: "${query}"` };
     case 'calculator':
       return { icon: <Calculator className="h-4 w-4" />, text: `Calculating: "${query}"` };
+    case 'symbolicMath':
+      return {
+        icon: <Sigma className="h-4 w-4" />,
+        text: `${args?.operation ? args.operation[0].toUpperCase() + args.operation.slice(1) : 'Working'}: "${query}"`,
+      };
     case 'weather':
+      if (args?.mode === 'daily' || args?.mode === 'hourly') {
+        const span = args.mode === 'daily' ? `${args.days ?? 7}-day` : `${args.hours ?? 24}-hour`;
+        return { icon: <Cloud className="h-4 w-4" />, text: `Fetching ${span} forecast for: "${query}"` };
+      }
       return { icon: <Cloud className="h-4 w-4" />, text: `Fetching weather for: "${query}"` };
+    case 'sizeTierClassifier':
+      return {
+        icon: <Ruler className="h-4 w-4" />,
+        text: `Classifying size tier (${args?.marketplace ?? 'US'})`,
+      };
+    case 'searchAttachments':
+      return { icon: <FileText className="h-4 w-4" />, text: `Searching attached files for: "${query}"` };
+    case 'analyzeSalesReport':
+      return {
+        icon: <BarChart3 className="h-4 w-4" />,
+        text: `Analyzing ${args?.file ?? 'sales report'} by ${args?.groupBy ?? 'month'}`,
+      };
+    case 'readPage':
+      return { icon: <BookOpen className="h-4 w-4" />, text: `Reading: ${args?.url ?? '...'}` };
+    case 'currencyConverter':
+      return {
+        icon: <ArrowRightLeft className="h-4 w-4" />,
+        text: `Converting ${args?.amount ?? '...'} ${args?.from ?? ''} to ${args?.to ?? '...'}`,
+      };
+    case 'profitCalculator':
+      return {
+        icon: <TrendingUp className="h-4 w-4" />,
+        text: `Calculating profit at $${args?.salePrice ?? '...'}`,
+      };
+    case 'fbaFeeCalculator':
+      return {
+        icon: <Receipt className="h-4 w-4" />,
+        text: `Calculating FBA fees for $${args?.price ?? '...'} (${args?.category ?? '...'})`,
+      };
     default:
       return { icon: <Loader2 className="h-4 w-4 animate-spin" />, text: `Using tool: ${toolName}` };
   }
 }
 
-export default function BotMessage({ message }: BotMessageProps) {
+// "cached 12 min ago" for tool results served from the tool cache
+function cacheAgeLabel(seconds: number): string {
+  if (seconds < 60) return 'cached just now';
+  if (seconds < 3600) return `cached ${Math.round(seconds / 60)} min ago`;
+  if (seconds < 86400) return `cached ${Math.round(seconds / 3600)} h ago`;
+  return `cached ${Math.round(seconds / 86400)} d ago`;
+}
+
+export default function BotMessage({
+  message: activeMessage,
+  onTogglePin,
+  onContinue,
+  onRegenerate,
+  versions,
+  onAcceptVersion,
+}: BotMessageProps) {
+  const [viewedId, setViewedId] = useState(activeMessage.id);
+  // The active version streams and updates live, the others are stored copies
+  const message =
+    viewedId === activeMessage.id
+      ? activeMessage
+      : (versions?.find((v) => v.id === viewedId) ?? activeMessage);
+  const viewingOther = message.id !== activeMessage.id;
+
   // Extract text content and tool invocations from parts
   const textContent: string[] = [];
   const toolCalls: MessagePart[] = [];
@@ -49,18 +129,28 @@ export default function BotMessage({ message }: BotMessageProps) {
   message.parts.forEach((part) => {
     if (part.type === 'text' && part.text) {
       textContent.push(part.text);
-    } else if (part.type.startsWith('tool-call')) {
-      toolCalls.push(part);
-    } else if (part.type.startsWith('tool-result')) {
-      toolResults.push(part);
-
-      // Extract sources from web search results
-      if (part.toolName === 'webSearch' && part.result?.results) {
-        part.result.results.forEach((result: any) => {
-          if (result.url) {
-            sources.push(result.url);
-          }
-        });
+    } else if (part.type.startsWith('tool-') || part.type === 'dynamic-tool') {
+      // Tool parts are typed "tool-<name>" and carry input/output by state
+      const toolName =
+        part.type === 'dynamic-tool' ? part.toolName : part.type.slice('tool-'.length);
+      toolCalls.push({ ...part, toolName, args: part.input });
+
+      if (part.state === 'output-available') {
+        toolResults.push({ ...part, toolName, result: part.output });
+
+        // Extract sources from web search results
+        if (toolName === 'webSearch' && part.output?.results) {
+          part.output.results.forEach((result: any) => {
+            if (result.url) {
+              sources.push(result.url);
+            }
+          });
+        }
+        // Pages the model actually read are sources too
+        const readUrl = toolName === 'readPage' && !part.output?.error ? part.output?.url : null;
+        if (readUrl && !sources.includes(readUrl)) {
+          sources.push(readUrl);
+        }
       }
     }
   });
@@ -82,6 +172,11 @@ export default function BotMessage({ message }: BotMessageProps) {
                 <div key={index} className="flex items-center gap-2 text-sm text-gray-600">
                   {icon}
                   <span>{text}</span>
+                  {typeof call.output?.cacheAgeSeconds === 'number' && (
+                    <span className="text-xs text-gray-400">
+                      {cacheAgeLabel(call.output.cacheAgeSeconds)}
+                    </span>
+                  )}
                 </div>
               );
             })}
@@ -115,20 +210,357 @@ export default function BotMessage({ message }: BotMessageProps) {
           if (result.toolName === 'calculator' && result.result?.result !== undefined) {
             return (
               <div key={index} className="text-sm">
-                <p className="text-gray-600">
-                  Result: <span className="font-medium text-gray-800">{result.result.result}</span>
+                {result.result.latex ? (
+                  <MathTex latex={result.result.latex} className="text-gray-800" />
+                ) : (
+                  <p className="text-gray-600">
+                    Result: <span className="font-medium text-gray-800">{result.result.result}</span>
+                  </p>
+                )}
+              </div>
+            );
+          }
+
+          if (result.toolName === 'symbolicMath' && result.result?.success) {
+            const math = result.result;
+            return (
+              <div key={index} className="rounded-lg border border-gray-200 bg-white p-3 text-sm">
+                <ol className="space-y-2">
+                  {(math.steps as SymbolicStep[]).map((step, idx) => (
+                    <li key={idx}>
+                      <p className="text-xs text-gray-500">
+                        {idx + 1}. {step.description}
+                      </p>
+                      <div className="overflow-x-auto">
+                        <MathTex latex={step.latex} display />
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+                <div className="mt-2 overflow-x-auto border-t border-gray-200 pt-2 font-medium">
+                  <MathTex latex={math.latex} display />
+                </div>
+              </div>
+            );
+          }
+
+          if (result.toolName === 'searchAttachments' && result.result?.results?.length > 0) {
+            return (
+              <div key={index} className="space-y-2 text-sm">
+                {(result.result.results as { citation: string; text: string }[]).map((passage, idx) => (
+                  <div key={idx} className="rounded-lg border border-gray-200 bg-white p-2">
+                    <p className="flex items-center gap-1 text-xs font-medium text-gray-500">
+                      <FileText className="h-3 w-3" />
+                      {passage.citation}
+                    </p>
+                    <p className="mt-1 line-clamp-4 whitespace-pre-line text-gray-700">{passage.text}</p>
+                  </div>
+                ))}
+              </div>
+            );
+          }
+
+          if (result.toolName === 'weather' && result.result?.location && !result.result.error) {
+            const weather = result.result;
+            const degree = weather.unit === 'fahrenheit' ? '°F' : '°C';
+            const percent = (value: number | null) => (value === null ? '–' : `${value}%`);
+            return (
+              <div key={index} className="text-sm">
+                <p className="font-medium">
+                  {weather.location}
+                  {weather.localTime && (
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      local time {weather.localTime.slice(11)} ({weather.timezone})
+                    </span>
+                  )}
+                </p>
+                <p className={weather.severe ? 'text-red-600' : 'text-gray-600'}>
+                  {weather.temperature}
+                  {degree} • {weather.condition}
+                  {weather.feelsLike !== undefined && ` • feels like ${weather.feelsLike}${degree}`}
                 </p>
+                {weather.humidity !== undefined && (
+                  <p className="text-xs text-gray-500">
+                    Humidity {weather.humidity}% • Precipitation {percent(weather.precipitationProbability)} •
+                    Wind {weather.windSpeed} km/h, gusts {weather.windGusts} km/h
+                  </p>
+                )}
+                {weather.daily && (
+                  <table className="mt-2 w-full border-collapse text-xs">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-gray-500">
+                        <th className="py-1 text-left font-medium">Date</th>
+                        <th className="py-1 text-left font-medium">Conditions</th>
+                        <th className="py-1 text-right font-medium">Min / max</th>
+                        <th className="py-1 text-right font-medium">Precip.</th>
+                        <th className="py-1 text-right font-medium">Gusts</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(weather.daily as DailyForecast[]).map((day) => (
+                        <tr
+                          key={day.date}
+                          className={`border-b border-gray-100 tabular-nums ${
+                            day.condition.severe ? 'text-red-600' : ''
+                          }`}
+                        >
+                          <td className="py-1">{day.date}</td>
+                          <td className="py-1">{day.condition.description}</td>
+                          <td className="py-1 text-right">
+                            {day.temperatureMin} / {day.temperatureMax}
+                            {degree}
+                          </td>
+                          <td className="py-1 text-right">
+                            {percent(day.precipitationProbability)}, {day.precipitationSum} mm
+                          </td>
+                          <td className="py-1 text-right">{day.windGustsMax} km/h</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {weather.hourly && (
+                  <div className="mt-2 max-h-64 overflow-y-auto">
+                    <table className="w-full border-collapse text-xs">
+                      <thead>
+                        <tr className="border-b border-gray-200 text-gray-500">
+                          <th className="py-1 text-left font-medium">Time</th>
+                          <th className="py-1 text-left font-medium">Conditions</th>
+                          <th className="py-1 text-right font-medium">Temp.</th>
+                          <th className="py-1 text-right font-medium">Precip.</th>
+                          <th className="py-1 text-right font-medium">Gusts</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {(weather.hourly as HourlyForecast[]).map((hour) => (
+                          <tr
+                            key={hour.time}
+                            className={`border-b border-gray-100 tabular-nums ${
+                              hour.condition.severe ? 'text-red-600' : ''
+                            }`}
+                          >
+                            <td className="py-1">{hour.time.replace('T', ' ')}</td>
+                            <td className="py-1">{hour.condition.description}</td>
+                            <td className="py-1 text-right">
+                              {hour.temperature}
+                              {degree}
+                            </td>
+                            <td className="py-1 text-right">{percent(hour.precipitationProbability)}</td>
+                            <td className="py-1 text-right">{hour.windGusts} km/h</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
               </div>
             );
           }
 
-          if (result.toolName === 'weather' && result.result?.location) {
+          if (result.toolName === 'sizeTierClassifier' && result.result?.success) {
+            const tier = result.result;
             return (
               <div key={index} className="text-sm">
-                <p className="font-medium">{result.result.location}</p>
+                <p className="font-medium">
+                  {tier.label} <span className="text-xs font-normal text-gray-500">({tier.marketplace})</span>
+                </p>
                 <p className="text-gray-600">
-                  {result.result.temperature}°{result.result.unit} • {result.result.condition}
+                  {tier.sides.join(' × ')} {tier.lengthUnit} • unit {tier.unitWeight} {tier.weightUnit} •
+                  dimensional {tier.dimensionalWeight} {tier.weightUnit} • shipping {tier.shippingWeight}{' '}
+                  {tier.weightUnit}
                 </p>
+                <p className="text-xs text-gray-500">{tier.rule}</p>
+              </div>
+            );
+          }
+
+          if (result.toolName === 'readPage' && result.result?.text) {
+            const page = result.result;
+            const details = [
+              page.byline,
+              page.publishedAt && new Date(page.publishedAt).toLocaleDateString(),
+              page.truncated && 'excerpt',
+            ].filter(Boolean);
+            return (
+              <div key={index} className="text-xs text-gray-500">
+                Read <span className="font-medium text-gray-700">{page.title || page.url}</span>
+                {details.length > 0 && ` • ${details.join(' • ')}`}
+              </div>
+            );
+          }
+
+          if (result.toolName === 'currencyConverter' && result.result?.success) {
+            const fx = result.result;
+            return (
+              <div key={index} className="text-sm">
+                <p className="font-medium tabular-nums">
+                  {fx.amount} {fx.from} = {fx.converted} {fx.to}
+                </p>
+                <p className="text-xs text-gray-500">
+                  1 {fx.from} = {Number(fx.rate.toFixed(6))} {fx.to} • rates of {fx.rateDate} • {fx.source}
+                  {fx.cached ? ' (cached)' : ''}
+                </p>
+              </div>
+            );
+          }
+
+          if (result.toolName === 'analyzeSalesReport' && result.result?.success) {
+            const report = result.result;
+            const table = report.table as SalesTable;
+            const format = (value: string | number | null, column: string) => {
+              if (value === null) return '–';
+              if (typeof value === 'string') return value;
+              if (column.endsWith('%')) return `${value > 0 ? '+' : ''}${value}%`;
+              return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+            };
+            return (
+              <div key={index} className="rounded-lg border border-gray-200 bg-white p-3 text-sm">
+                <p className="text-xs text-gray-500">
+                  {report.file} • {report.aggregation} by {report.groupBy} • {report.rowCount} rows
+                  {report.dateRange && ` • ${report.dateRange.from} to ${report.dateRange.to}`}
+                  {report.currency && ` • ${report.currency}`}
+                  {report.growthBasis && ` • growth ${report.growthBasis}`}
+                </p>
+                <div className="mt-2 overflow-x-auto">
+                  <table className="w-full border-collapse text-xs">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-gray-500">
+                        {table.columns.map((column, idx) => (
+                          <th
+                            key={column}
+                            className={`py-1 font-medium ${idx === 0 ? 'text-left' : 'text-right'}`}
+                          >
+                            {column}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {table.rows.map((row, idx) => (
+                        <tr key={idx} className="border-b border-gray-100 tabular-nums">
+                          {row.map((value, col) => {
+                            const column = table.columns[col];
+                            const growth = column.endsWith('%') && typeof value === 'number';
+                            return (
+                              <td
+                                key={col}
+                                className={`py-1 ${typeof value === 'string' ? 'max-w-48 truncate text-left' : 'text-right'} ${
+                                  growth ? (value < 0 ? 'text-red-600' : 'text-green-600') : ''
+                                }`}
+                              >
+                                {format(value, column)}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {report.truncated && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Showing {table.rows.length} of {report.groupCount} groups
+                  </p>
+                )}
+              </div>
+            );
+          }
+
+          if (result.toolName === 'profitCalculator' && result.result?.success) {
+            const profit = result.result;
+            const money = (value: number) => `$${value.toFixed(2)}`;
+            const stats: [string, string][] = [
+              ['Profit / unit', money(profit.profit)],
+              ['Margin', `${profit.margin}%`],
+              ['ROI', `${profit.roi}%`],
+              ['Breakeven ACoS', `${profit.breakevenAcos}%`],
+            ];
+            return (
+              <div key={index} className="rounded-lg border border-gray-200 bg-white p-3 text-sm">
+                <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                  {stats.map(([label, value]) => (
+                    <div key={label}>
+                      <p className="text-xs text-gray-500">{label}</p>
+                      <p
+                        className={`font-semibold tabular-nums ${
+                          profit.profit < 0 ? 'text-red-600' : 'text-gray-900'
+                        }`}
+                      >
+                        {value}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Landed cost {money(profit.landedCost)} • Amazon fees {money(profit.amazonFees)} • PPC{' '}
+                  {money(profit.ppcPerUnit)} per unit
+                </p>
+                <table className="mt-2 w-full border-collapse text-xs">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-gray-500">
+                      <th className="py-1 text-left font-medium">Price</th>
+                      <th className="py-1 text-right font-medium">Profit</th>
+                      <th className="py-1 text-right font-medium">Margin</th>
+                      <th className="py-1 text-right font-medium">ROI</th>
+                      <th className="py-1 text-right font-medium">Breakeven ACoS</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(profit.sensitivity as ProfitAtPrice[]).map((row) => (
+                      <tr
+                        key={row.price}
+                        className={`border-b border-gray-100 tabular-nums ${
+                          row.price === profit.price ? 'font-semibold' : ''
+                        } ${row.profit < 0 ? 'text-red-600' : ''}`}
+                      >
+                        <td className="py-1">{money(row.price)}</td>
+                        <td className="py-1 text-right">{money(row.profit)}</td>
+                        <td className="py-1 text-right">{row.margin}%</td>
+                        <td className="py-1 text-right">{row.roi}%</td>
+                        <td className="py-1 text-right">{row.breakevenAcos}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          }
+
+          if (result.toolName === 'fbaFeeCalculator' && result.result?.success) {
+            const fees = result.result;
+            const money = (value: number) => `$${value.toFixed(2)}`;
+            const rows: [string, string][] = [
+              ['Price', money(fees.price)],
+              ['Referral fee', `-${money(fees.referralFee)}`],
+              ['FBA fulfillment fee', `-${money(fees.fulfillmentFee)}`],
+              ['Closing fee', `-${money(fees.closingFee)}`],
+              ['Total fees', `-${money(fees.totalFees)}`],
+            ];
+            return (
+              <div key={index} className="text-sm">
+                <table className="w-full max-w-sm border-collapse">
+                  <tbody>
+                    {rows.map(([label, value]) => (
+                      <tr key={label} className="border-b border-gray-200">
+                        <td className="py-1 text-gray-600">{label}</td>
+                        <td className="py-1 text-right tabular-nums">{value}</td>
+                      </tr>
+                    ))}
+                    <tr className="font-semibold">
+                      <td className="py-1">Net proceeds</td>
+                      <td className="py-1 text-right tabular-nums">{money(fees.netProceeds)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+                <p className="mt-1 text-xs text-gray-500">
+                  {fees.sizeTier} • {fees.shippingWeightLb} lb shipping weight • fee table{' '}
+                  {fees.feeTable.version} (from {fees.feeTable.effectiveFrom})
+                </p>
+                {fees.assumptions?.map((assumption: string) => (
+                  <p key={assumption} className="mt-1 text-xs text-amber-700">
+                    {assumption}
+                  </p>
+                ))}
               </div>
             );
           }
@@ -170,6 +602,74 @@ export default function BotMessage({ message }: BotMessageProps) {
             </div>
           </div>
         )}
+
+        {/* Stopped before it finished */}
+        {message.metadata?.status === 'stopped' && (
+          <div className="flex items-center gap-3 text-xs text-gray-500">
+            <span>Response stopped</span>
+            {onContinue && !viewingOther && (
+              <button
+                onClick={onContinue}
+                className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800"
+              >
+                <Play className="h-3 w-3" />
+                Continue
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Tool calls behind the answer */}
+        {message.metadata?.trace && <ToolTracePanel spans={message.metadata.trace} />}
+
+        {/* Model attribution, versions and actions */}
+        <div className="flex items-center justify-between gap-2">
+          {message.metadata?.model ? (
+            <p className="text-[11px] text-gray-400">Generated by {message.metadata.model}</p>
+          ) : (
+            <span />
+          )}
+          <div className="flex items-center gap-3">
+            {versions && (
+              <BranchNavigator
+                siblingIds={versions.map((v) => v.id)}
+                currentId={message.id}
+                onSelect={setViewedId}
+              />
+            )}
+            {viewingOther && onAcceptVersion && (
+              <button
+                onClick={() => onAcceptVersion(message.id)}
+                className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800"
+                title="Continue the conversation from this version"
+              >
+                <Check className="h-3 w-3" />
+                Use this version
+              </button>
+            )}
+            {!viewingOther && versions && message.metadata?.accepted && (
+              <span className="text-[11px] text-gray-400">Accepted</span>
+            )}
+            {onRegenerate && !viewingOther && (
+              <button
+                onClick={onRegenerate}
+                title="Regenerate (keeps this version)"
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+              </button>
+            )}
+            {onTogglePin && !viewingOther && (
+              <button
+                onClick={onTogglePin}
+                title={message.metadata?.pinned ? 'Unpin from context' : 'Pin to context'}
+                className={message.metadata?.pinned ? 'text-indigo-600' : 'text-gray-400 hover:text-gray-600'}
+              >
+                <Pin className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,127 @@
+"use client";
+import React, { useState } from "react";
+import { User, Pin, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import BranchNavigator from "@/components/BranchNavigator";
+import type { ChatUIMessage } from "@/lib/types";
+
+interface UserMessageProps {
+  message: ChatUIMessage;
+  onTogglePin?: () => void;
+  onEdit?: (text: string) => void; // sends the edited text as a new branch
+  siblingIds?: string[];
+  onSelectBranch?: (messageId: string) => void;
+}
+
+const messageText = (message: ChatUIMessage) =>
+  message.parts.map((part) => (part.type === "text" ? part.text : "")).join("");
+
+export default function UserMessage({
+  message,
+  onTogglePin,
+  onEdit,
+  siblingIds,
+  onSelectBranch,
+}: UserMessageProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const startEditing = () => {
+    setDraft(messageText(message));
+    setEditing(true);
+  };
+
+  const submitEdit = () => {
+    const text = draft.trim();
+    if (!text || !onEdit) return;
+    setEditing(false);
+    onEdit(text);
+  };
+
+  return (
+    <div className="flex items-start gap-3 p-3 bg-white rounded-lg shadow-sm max-w-2xl">
+      <div className="flex flex-col gap-2">
+        {/* Attached images, kept when the message is edited */}
+        {message.parts.some((part) => part.type === "file") && (
+          <div className="flex flex-wrap gap-2">
+            {message.parts.map((part, index) =>
+              part.type === "file" && part.mediaType.startsWith("image/") ? (
+                <a key={index} href={part.url} target="_blank" rel="noopener noreferrer">
+                  <img
+                    src={part.url}
+                    alt={part.filename ?? "Attached image"}
+                    className="h-24 w-24 rounded-md border object-cover"
+                  />
+                </a>
+              ) : null,
+            )}
+          </div>
+        )}
+        {editing ? (
+          <div className="flex flex-col gap-2 min-w-[20rem]">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                }
+                if (e.key === "Escape") setEditing(false);
+              }}
+              className="text-sm"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={submitEdit} disabled={!draft.trim()}>
+                Send
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="text-gray-800 text-sm font-medium whitespace-pre-wrap">
+            {message.parts.map((part, index) => {
+              if (part.type === "text") {
+                return <span key={index}>{part.text}</span>;
+              }
+              return null;
+            })}
+          </div>
+        )}
+        {siblingIds && (
+          <BranchNavigator
+            siblingIds={siblingIds}
+            currentId={message.id}
+            onSelect={(id) => onSelectBranch?.(id)}
+            disabled={!onSelectBranch}
+          />
+        )}
+      </div>
+      <div className="flex flex-col items-center gap-2 shrink-0">
+        <User className="w-6 h-6 text-gray-500" />
+        {onTogglePin && (
+          <button
+            onClick={onTogglePin}
+            title={message.metadata?.pinned ? "Unpin from context" : "Pin to context"}
+            className={message.metadata?.pinned ? "text-indigo-600" : "text-gray-400 hover:text-gray-600"}
+          >
+            <Pin className="h-3.5 w-3.5" />
+          </button>
+        )}
+        {onEdit && !editing && (
+          <button
+            onClick={startEditing}
+            title="Edit and resend"
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { generateText, type LanguageModel, type UIMessage } from 'ai';
+import {
+  loadChatSummary,
+  saveChatSummary,
+  type ChatSummary,
+} from '@/lib/database/chatStore';
+import type { ChatMessageMetadata } from '@/lib/types';
+
+const MAX_CONTEXT_TOKENS = Number(process.env.CONTEXT_MAX_TOKENS) || 24_000;
+const KEEP_TURNS = Number(process.env.CONTEXT_KEEP_TURNS) || 6;
+const SUMMARY_MAX_TOKENS = 800;
+const TRANSCRIPT_CHARS_PER_MESSAGE = 2_000;
+
+// Rough token estimate (~4 characters per token), good enough for budgeting
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+function messageText(message: UIMessage): string {
+  return message.parts
+    .map((part) => {
+      if (part.type === 'text') return part.text;
+      if (part.type === 'file') return `[image: ${part.filename ?? 'attached'}]`;
+      if (part.type.startsWith('tool-') && 'output' in part) {
+        return JSON.stringify(part.output ?? '');
+      }
+      return '';
+    })
+    .join(' ');
+}
+
+const messageTokens = (messages: UIMessage[]) =>
+  messages.reduce((sum, m) => sum + estimateTokens(messageText(m)), 0);
+
+const isPinned = (message: UIMessage) =>
+  (message.metadata as ChatMessageMetadata | undefined)?.pinned === true;
+
+// Group messages into turns, each starting with a user message
+function splitTurns(messages: UIMessage[]): UIMessage[][] {
+  const turns: UIMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+const transcript = (messages: UIMessage[]) =>
+  messages
+    .map(
+      (m) =>
+        `${m.role.toUpperCase()}: ${messageText(m).slice(0, TRANSCRIPT_CHARS_PER_MESSAGE)}`,
+    )
+    .join('\n\n');
+
+// Fold messages that left the verbatim window into the stored running summary
+async function updateSummary({
+  userId,
+  chatId,
+  model,
+  allMessages,
+  toFold,
+}: {
+  userId: string;
+  chatId: string;
+  model: LanguageModel;
+  allMessages: UIMessage[];
+  toFold: UIMessage[];
+}): Promise<{ summary: ChatSummary | null; tokensUsed: number }> {
+  const stored = await loadChatSummary(userId, chatId);
+  let previous = stored;
+  let pending = toFold;
+
+  if (stored?.summarizedUntil) {
+    const foldIndex = toFold.findIndex((m) => m.id === stored.summarizedUntil);
+    if (foldIndex !== -1) {
+      pending = toFold.slice(foldIndex + 1);
+    } else if (allMessages.some((m) => m.id === stored.summarizedUntil)) {
+      // Summary already covers everything that is being folded
+      pending = [];
+    } else {
+      // Summary belongs to messages that are no longer in this chat, start over
+      previous = null;
+    }
+  }
+
+  if (pending.length === 0) {
+    return { summary: previous, tokensUsed: 0 };
+  }
+
+  const { text, usage } = await generateText({
+    model,
+    maxOutputTokens: SUMMARY_MAX_TOKENS,
+    system:
+      'You maintain a running summary of a conversation between a user and an FBA (Fulfillment by Amazon) assistant. ' +
+      'Keep facts, numbers, product details, decisions and open questions. Be concise and write in plain prose.',
+    prompt: `Summarize the conversation so far.
+
+Current summary:
+${previous?.text || '(none)'}
+
+New messages to fold into the summary:
+${transcript(pending)}
+
+Return the updated summary only.`,
+  });
+
+  const summary: ChatSummary = {
+    text: text.trim(),
+    summarizedUntil: pending[pending.length - 1].id,
+    updatedAt: Date.now(),
+  };
+  await saveChatSummary(userId, chatId, summary);
+  return { summary, tokensUsed: usage.totalTokens ?? 0 };
+}
+
+/**
+ * Context Builder
+ *
+ * Keeps the system prompt, the last turns and pinned messages verbatim within
+ * a token budget. Older turns are represented by the stored running summary,
+ * which is appended to the system prompt.
+ */
+export async function buildModelContext({
+  userId,
+  chatId,
+  model,
+  system,
+  messages,
+}: {
+  userId: string;
+  chatId?: string;
+  model: LanguageModel;
+  system: string;
+  messages: UIMessage[];
+}): Promise<{ system: string; messages: UIMessage[]; summaryTokens: number }> {
+  const turns = splitTurns(messages);
+  const budget = MAX_CONTEXT_TOKENS - estimateTokens(system) - SUMMARY_MAX_TOKENS;
+
+  // Shrink the verbatim window until recent turns and older pins fit the budget
+  let keep = Math.min(KEEP_TURNS, turns.length);
+  const fits = (n: number) => {
+    const recent = turns.slice(turns.length - n).flat();
+    const pinned = turns.slice(0, turns.length - n).flat().filter(isPinned);
+    return messageTokens(recent) + messageTokens(pinned) <= budget;
+  };
+  while (keep > 1 && !fits(keep)) keep--;
+
+  const recent = turns.slice(turns.length - keep).flat();
+  const older = turns.slice(0, turns.length - keep).flat();
+
+  if (older.length === 0 || !chatId) {
+    return { system, messages: [...older.filter(isPinned), ...recent], summaryTokens: 0 };
+  }
+
+  let summary: ChatSummary | null = null;
+  let summaryTokens = 0;
+  try {
+    ({ summary, tokensUsed: summaryTokens } = await updateSummary({
+      userId,
+      chatId,
+      model,
+      allMessages: messages,
+      toFold: older.filter((m) => !isPinned(m)),
+    }));
+  } catch (error) {
+    console.error('Error updating conversation summary:', error);
+  }
+
+  return {
+    system: summary?.text
+      ? `${system}\n\nSummary of the earlier conversation:\n${summary.text}`
+      : system,
+    messages: [...older.filter(isPinned), ...recent],
+    summaryTokens,
+  };
+}
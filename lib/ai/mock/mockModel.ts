@@ -0,0 +1,163 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { simulateReadableStream } from 'ai';
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Content,
+  LanguageModelV2FinishReason,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+  LanguageModelV2Usage,
+} from '@ai-sdk/provider';
+
+/**
+ * Scripted Mock Language Model
+ *
+ * Replays fixture scripts instead of calling a real provider, so the chat
+ * route, tool execution, UI streaming and persistence work offline.
+ * A fixture is picked by matching its `pattern` against the latest user
+ * message; each step of the script answers one model call of a multi-step
+ * `streamText` run.
+ */
+
+export interface MockToolCall {
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+export interface MockStep {
+  text?: string;
+  toolCalls?: MockToolCall[];
+}
+
+export interface MockFixture {
+  name: string;
+  pattern: string;
+  priority?: number;
+  chunkDelayMs?: number;
+  steps: MockStep[];
+}
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'lib/ai/mock/fixtures');
+const DEFAULT_CHUNK_DELAY_MS = 20;
+
+let cachedFixtures: MockFixture[] | null = null;
+
+// Load fixture scripts once, highest priority first
+function loadFixtures(): MockFixture[] {
+  if (cachedFixtures) return cachedFixtures;
+  const dir = process.env.MOCK_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+  cachedFixtures = fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => {
+      const fixture = JSON.parse(
+        fs.readFileSync(path.join(dir, file), 'utf8'),
+      ) as MockFixture;
+      return { ...fixture, name: fixture.name || path.basename(file, '.json') };
+    })
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  return cachedFixtures;
+}
+
+const textOf = (message: LanguageModelV2Prompt[number]): string =>
+  typeof message.content === 'string'
+    ? message.content
+    : message.content
+        .map((part) => (part.type === 'text' ? part.text : ''))
+        .join(' ');
+
+// Find the fixture and the step to replay for this model call
+function selectStep(prompt: LanguageModelV2Prompt): {
+  fixture: MockFixture;
+  step: MockStep;
+  userText: string;
+} {
+  const lastUserIndex = prompt.map((m) => m.role).lastIndexOf('user');
+  const userText = lastUserIndex >= 0 ? textOf(prompt[lastUserIndex]) : '';
+  // Each completed step adds one assistant message after the user turn
+  const stepIndex = prompt
+    .slice(lastUserIndex + 1)
+    .filter((m) => m.role === 'assistant').length;
+
+  const fixtures = loadFixtures();
+  const fixture = fixtures.find((f) => new RegExp(f.pattern, 'i').test(userText));
+  if (!fixture) {
+    throw new Error(`No mock fixture matches prompt: "${userText}"`);
+  }
+  const step = fixture.steps[Math.min(stepIndex, fixture.steps.length - 1)];
+  return { fixture, step, userText };
+}
+
+const interpolate = (text: string, userText: string) =>
+  text.replace(/\{\{prompt\}\}/g, userText);
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+function buildResult(options: LanguageModelV2CallOptions) {
+  const { fixture, step, userText } = selectStep(options.prompt);
+  const text = step.text ? interpolate(step.text, userText) : '';
+  const toolCalls = (step.toolCalls ?? []).map((call, index) => ({
+    type: 'tool-call' as const,
+    toolCallId: `mock-call-${Date.now()}-${index}`,
+    toolName: call.toolName,
+    input: JSON.stringify(call.input),
+  }));
+  const finishReason: LanguageModelV2FinishReason = toolCalls.length
+    ? 'tool-calls'
+    : 'stop';
+  const inputTokens = estimateTokens(options.prompt.map(textOf).join(' '));
+  const outputTokens = estimateTokens(text);
+  const usage: LanguageModelV2Usage = {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+  };
+  return { fixture, text, toolCalls, finishReason, usage };
+}
+
+export function createMockModel(modelId = 'scripted'): LanguageModelV2 {
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const { text, toolCalls, finishReason, usage } = buildResult(options);
+      const content: LanguageModelV2Content[] = [
+        ...(text ? [{ type: 'text' as const, text }] : []),
+        ...toolCalls,
+      ];
+      return { content, finishReason, usage, warnings: [] };
+    },
+
+    async doStream(options) {
+      const { fixture, text, toolCalls, finishReason, usage } =
+        buildResult(options);
+      const chunks: LanguageModelV2StreamPart[] = [
+        { type: 'stream-start', warnings: [] },
+      ];
+      if (text) {
+        chunks.push({ type: 'text-start', id: 'mock-text' });
+        // Stream word by word, keeping the whitespace with each word
+        for (const delta of text.match(/\S+\s*|\s+/g) ?? []) {
+          chunks.push({ type: 'text-delta', id: 'mock-text', delta });
+        }
+        chunks.push({ type: 'text-end', id: 'mock-text' });
+      }
+      chunks.push(...toolCalls);
+      chunks.push({ type: 'finish', finishReason, usage });
+
+      const delay = fixture.chunkDelayMs ?? DEFAULT_CHUNK_DELAY_MS;
+      return {
+        stream: simulateReadableStream({
+          chunks,
+          initialDelayInMs: delay,
+          chunkDelayInMs: delay,
+        }),
+      };
+    },
+  };
+}
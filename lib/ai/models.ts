@@ -0,0 +1,115 @@
+import { createProviderRegistry, customProvider, type LanguageModel } from 'ai';
+import { google } from '@ai-sdk/google';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { createMockModel } from '@/lib/ai/mock/mockModel';
+
+export type ModelProvider = 'google' | 'openai-compatible' | 'local' | 'mock';
+
+export interface ModelOption {
+  id: string; // "<provider>:<model>", e.g. "google:gemini-2.0-flash-exp"
+  label: string;
+  provider: ModelProvider;
+}
+
+const DEFAULT_GEMINI_MODELS = [
+  'gemini-2.0-flash-exp',
+  'gemini-2.0-flash',
+  'gemini-2.5-flash',
+  'gemini-2.5-pro',
+];
+
+// Offline development: AI_MOCK_MODEL=true adds the scripted mock and makes it the default
+const mockEnabled = process.env.AI_MOCK_MODEL === 'true';
+
+const parseList = (value: string | undefined): string[] =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Provider Registry
+ *
+ * Gemini is always registered. An OpenAI-compatible endpoint and a local
+ * (e.g. Ollama / LM Studio) endpoint are added when their base URL is set,
+ * and the scripted mock when AI_MOCK_MODEL is enabled.
+ */
+const providers = {
+  google,
+  ...(process.env.OPENAI_COMPATIBLE_BASE_URL && {
+    'openai-compatible': createOpenAICompatible({
+      name: process.env.OPENAI_COMPATIBLE_NAME || 'openai-compatible',
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    }),
+  }),
+  ...(process.env.LOCAL_MODEL_BASE_URL && {
+    local: createOpenAICompatible({
+      name: 'local',
+      baseURL: process.env.LOCAL_MODEL_BASE_URL,
+    }),
+  }),
+  ...(mockEnabled && {
+    mock: customProvider({
+      languageModels: { scripted: createMockModel() },
+    }),
+  }),
+};
+
+const registry = createProviderRegistry(providers);
+
+// Models exposed to the client, built from env configuration
+export function getAvailableModels(): ModelOption[] {
+  const geminiModels = parseList(process.env.GEMINI_MODELS);
+  const models: ModelOption[] = mockEnabled
+    ? [{ id: 'mock:scripted', label: 'Mock (scripted)', provider: 'mock' }]
+    : [];
+
+  for (const name of geminiModels.length ? geminiModels : DEFAULT_GEMINI_MODELS) {
+    models.push({ id: `google:${name}`, label: name, provider: 'google' });
+  }
+
+  if (process.env.OPENAI_COMPATIBLE_BASE_URL) {
+    const label = process.env.OPENAI_COMPATIBLE_NAME || 'OpenAI-compatible';
+    for (const name of parseList(process.env.OPENAI_COMPATIBLE_MODELS)) {
+      models.push({
+        id: `openai-compatible:${name}`,
+        label: `${name} (${label})`,
+        provider: 'openai-compatible',
+      });
+    }
+  }
+
+  if (process.env.LOCAL_MODEL_BASE_URL) {
+    for (const name of parseList(process.env.LOCAL_MODELS)) {
+      models.push({
+        id: `local:${name}`,
+        label: `${name} (local)`,
+        provider: 'local',
+      });
+    }
+  }
+
+  return models;
+}
+
+export function getDefaultModelId(): string {
+  const models = getAvailableModels();
+  const configured = process.env.DEFAULT_MODEL;
+  if (!mockEnabled && configured && models.some((m) => m.id === configured)) {
+    return configured;
+  }
+  return models[0].id;
+}
+
+export function isAllowedModel(modelId: string): boolean {
+  return getAvailableModels().some((m) => m.id === modelId);
+}
+
+// Resolve an allowlisted model id to a language model instance
+export function resolveModel(modelId: string): LanguageModel {
+  if (!isAllowedModel(modelId)) {
+    throw new Error(`Model not allowed: ${modelId}`);
+  }
+  return registry.languageModel(modelId as Parameters<typeof registry.languageModel>[0]);
+}
@@ -0,0 +1,109 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import type { Tool } from 'ai';
+import { redis } from '@/lib/database/redis';
+
+/**
+ * Tool Result Cache
+ *
+ * Identical tool calls repeat across users and chats. Results are stored in
+ * Redis under the tool name and a hash of the normalized input, each tool
+ * with its own TTL. A hit is returned with `cachedAt` and `cacheAgeSeconds`
+ * so the UI can say how old it is. Calls with `fresh: true` skip the read
+ * and refresh the entry.
+ */
+
+// Weather changes within the hour, search and image results much more slowly
+export const TOOL_CACHE_TTL_SECONDS = {
+  webSearch: 60 * 60 * 6,
+  imageSearch: 60 * 60 * 24,
+  weather: 60 * 10,
+} as const;
+
+interface CachedEntry {
+  output: unknown;
+  storedAt: number;
+}
+
+// Input flag for tools wrapped with withToolCache
+export const freshFlag = z
+  .boolean()
+  .optional()
+  .describe('Skip cached results and fetch fresh data, e.g. when the user asks for the latest');
+
+// Order-, case- and whitespace-insensitive form of a tool input, without the bypass flag
+export function normalizeToolInput(input: unknown): unknown {
+  if (typeof input === 'string') return input.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (Array.isArray(input)) return input.map(normalizeToolInput);
+  if (input && typeof input === 'object') {
+    return Object.fromEntries(
+      Object.entries(input)
+        .filter(([key, value]) => key !== 'fresh' && value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, value]) => [key, normalizeToolInput(value)]),
+    );
+  }
+  return input;
+}
+
+export function toolCacheKey(toolName: string, input: unknown): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify(normalizeToolInput(input)))
+    .digest('hex')
+    .slice(0, 32);
+  return `toolcache:${toolName}:${hash}`;
+}
+
+// Error results are retried on the next call instead of being served from cache
+const isCacheable = (output: unknown) =>
+  !!output && typeof output === 'object' && !('error' in output);
+
+async function readEntry(key: string): Promise<CachedEntry | null> {
+  if (!redis) return null;
+  const data = await redis.get<CachedEntry | string>(key);
+  if (!data) return null;
+  return typeof data === 'string' ? (JSON.parse(data) as CachedEntry) : data;
+}
+
+export function withToolCache<T extends Tool>(
+  toolName: string,
+  definition: T,
+  { ttlSeconds }: { ttlSeconds: number },
+): T {
+  const execute = definition.execute;
+  if (!execute || !redis) return definition;
+  const client = redis;
+
+  const cachedExecute: NonNullable<Tool['execute']> = async (input, options) => {
+    const key = toolCacheKey(toolName, input);
+    const fresh = (input as { fresh?: boolean } | undefined)?.fresh === true;
+
+    if (!fresh) {
+      try {
+        const entry = await readEntry(key);
+        if (entry && entry.output && typeof entry.output === 'object') {
+          return {
+            ...entry.output,
+            cachedAt: new Date(entry.storedAt).toISOString(),
+            cacheAgeSeconds: Math.round((Date.now() - entry.storedAt) / 1000),
+          };
+        }
+      } catch (error) {
+        console.error(`Error reading ${toolName} result from cache:`, error);
+      }
+    }
+
+    const output = await execute(input, options);
+    if (isCacheable(output)) {
+      try {
+        const entry: CachedEntry = { output, storedAt: Date.now() };
+        await client.set(key, JSON.stringify(entry), { ex: ttlSeconds });
+      } catch (error) {
+        console.error(`Error writing ${toolName} result to cache:`, error);
+      }
+    }
+    return output;
+  };
+
+  return { ...definition, execute: cachedExecute };
+}
@@ -0,0 +1,92 @@
+import type { Tool, ToolSet } from 'ai';
+import { redis } from '@/lib/database/redis';
+import { TOOL_CACHE_TTL_SECONDS } from '@/lib/ai/toolCache';
+
+/**
+ * Tool Tracing
+ *
+ * Every tool execution of a response is recorded as a span: input, output
+ * truncated for storage, duration, cache status and error. The spans are
+ * saved in the assistant message's metadata, so the trace can be inspected
+ * later next to the answer it produced.
+ */
+
+const MAX_OUTPUT_CHARS = 2000;
+
+export type ToolCacheStatus = 'hit' | 'miss' | 'bypass';
+
+export interface ToolSpan {
+  toolCallId: string;
+  name: string;
+  input: unknown;
+  output?: string; // JSON, truncated to MAX_OUTPUT_CHARS
+  outputTruncated?: boolean;
+  startedAt: number;
+  durationMs: number;
+  cache?: ToolCacheStatus; // only for tools behind the tool cache
+  error?: string; // thrown, or the `error` field tools return on failure
+}
+
+export interface ToolTrace {
+  spans: ToolSpan[];
+}
+
+export const createToolTrace = (): ToolTrace => ({ spans: [] });
+
+function cacheStatus(name: string, input: unknown, output: unknown): ToolCacheStatus | undefined {
+  if (!redis || !(name in TOOL_CACHE_TTL_SECONDS)) return undefined;
+  if (output && typeof output === 'object' && 'cachedAt' in output) return 'hit';
+  return (input as { fresh?: boolean } | undefined)?.fresh === true ? 'bypass' : 'miss';
+}
+
+function serializeOutput(output: unknown): Pick<ToolSpan, 'output' | 'outputTruncated'> {
+  const json = JSON.stringify(output) ?? '';
+  return json.length > MAX_OUTPUT_CHARS
+    ? { output: `${json.slice(0, MAX_OUTPUT_CHARS)}…`, outputTruncated: true }
+    : { output: json };
+}
+
+function withToolTrace<T extends Tool>(trace: ToolTrace, name: string, definition: T): T {
+  const execute = definition.execute;
+  if (!execute) return definition;
+
+  const tracedExecute: NonNullable<Tool['execute']> = async (input, options) => {
+    const startedAt = Date.now();
+    const span: ToolSpan = {
+      toolCallId: options.toolCallId,
+      name,
+      input,
+      startedAt,
+      durationMs: 0,
+    };
+    trace.spans.push(span);
+    try {
+      const output = await execute(input, options);
+      const error = (output as { error?: unknown } | undefined)?.error;
+      const cache = cacheStatus(name, input, output);
+      Object.assign(span, {
+        ...serializeOutput(output),
+        ...(cache && { cache }),
+        ...(typeof error === 'string' && { error }),
+      });
+      return output;
+    } catch (error) {
+      span.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      span.durationMs = Date.now() - startedAt;
+    }
+  };
+
+  return { ...definition, execute: tracedExecute };
+}
+
+// Wraps every tool of a request so its executions land in the same trace
+export function traceTools<T extends ToolSet>(trace: ToolTrace, tools: T): T {
+  return Object.fromEntries(
+    Object.entries(tools).map(([name, definition]) => [
+      name,
+      withToolTrace(trace, name, definition),
+    ]),
+  ) as T;
+}
@@ -1,26 +1,67 @@
 import { z } from 'zod';
 import { tool } from 'ai';
-import { create, all } from 'mathjs';
+import { convertCurrency } from '@/lib/currency/rates';
+import { FBA_CATEGORIES } from '@/lib/fba/feeTables';
+import { calculateFbaFees } from '@/lib/fba/fees';
+import { calculateProfit } from '@/lib/fba/profit';
+import { classifySizeTier } from '@/lib/fba/sizeTier';
+import { estimateTokens } from '@/lib/ai/context';
+import { citeChunk, searchChunks } from '@/lib/attachments/bm25';
+import {
+  listAttachments,
+  loadAttachmentChunks,
+  loadAttachmentTable,
+} from '@/lib/database/attachmentStore';
+import {
+  CalculatorError,
+  evaluateExpression,
+  MAX_EXPRESSION_LENGTH,
+  runSymbolic,
+  SYMBOLIC_OPERATIONS,
+} from '@/lib/math/sandbox';
+import { extractReadableContent, truncateToTokens } from '@/lib/web/extract';
+import { fetchPublicPage } from '@/lib/web/publicFetch';
+import { searchWeb } from '@/lib/web/search';
+import {
+  describePlace,
+  geocode,
+  getForecast,
+  MAX_FORECAST_DAYS,
+  MAX_FORECAST_HOURS,
+} from '@/lib/weather/openMeteo';
+import { freshFlag } from '@/lib/ai/toolCache';
+import { fetchJson } from '@/lib/http/client';
+import { parseSalesReport } from '@/lib/sales/report';
+import { aggregateSales, SALES_GROUP_BY, SALES_METRICS } from '@/lib/sales/aggregate';
 
-const math = create(all, {
-  number: 'number',
-  precision: 14,
-});
+const MAX_PAGE_BYTES = 2_000_000;
 
-const withTimeout = <T>(promise: Promise<T>, ms = 8000): Promise<T> =>
-  Promise.race([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new Error('Request timeout')), ms),
-    ),
-  ]);
+// Read a response body as text, giving up past `maxBytes`
+async function readBodyText(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    text += decoder.decode(value, { stream: true });
+    if (bytes >= maxBytes) {
+      await reader.cancel();
+      break;
+    }
+  }
+  return text;
+}
 
 /**
- * Google Custom Web Search Tool
+ * Web Search Tool
  */
 export const webSearchTool = tool({
   description:
-    'Search the web using Google Custom Search API for real-time and recent information.',
+    'Search the web for real-time and recent information. Results come from the first available search provider.',
   inputSchema: z.object({
     query: z.string().describe('The search query'),
     numResults: z
@@ -28,46 +69,18 @@ export const webSearchTool = tool({
       .optional()
       .default(5)
       .describe('Number of results to return'),
+    fresh: freshFlag,
   }),
-  execute: async ({ query, numResults }) => {
-    const apiKey = process.env.GOOGLE_API_KEY;
-    const cx = process.env.GOOGLE_CSE_ID;
-
-    if (!apiKey || !cx) {
-      console.error(
-        'Missing GOOGLE_API_KEY or GOOGLE_CSE_ID in environment variables.',
-      );
-      return {
-        query,
-        results: [],
-        error: 'Search unavailable: missing API configuration.',
-        timestamp: new Date().toISOString(),
-      };
-    }
-
-    const apiUrl = `https://www.googleapis.com/customsearch/v1?q=${encodeURIComponent(
-      query,
-    )}&key=${apiKey}&cx=${cx}&num=${numResults}`;
-
+  execute: async ({ query, numResults }, { abortSignal }) => {
     try {
-      const response = await withTimeout(fetch(apiUrl));
-      if (!response.ok) {
-        throw new Error(`Google API Error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const items = data.items || [];
-
-      const results = items.map((item: any) => ({
-        title: item.title,
-        url: item.link,
-        snippet: item.snippet || '',
-      }));
+      const response = await searchWeb(query, { limit: numResults, signal: abortSignal });
 
       return {
-        source: 'Google Search',
+        source: response.label,
+        provider: response.provider,
         query,
-        results,
+        results: response.results,
+        ...(response.failures.length > 0 && { failedProviders: response.failures }),
         timestamp: new Date().toISOString(),
       };
     } catch (error: any) {
@@ -87,25 +100,54 @@ export const webSearchTool = tool({
  */
 export const weatherTool = tool({
   description:
-    'Get current weather information for a specific city or location using Open-Meteo API.',
+    'Get current weather, an hourly forecast or a multi-day forecast for a city or location using Open-Meteo API. ' +
+    'Add a region or country after a comma to disambiguate, e.g. "Springfield, Illinois".',
   inputSchema: z.object({
     location: z
       .string()
-      .describe('City name or location (e.g., London, New York, Delhi)'),
+      .describe('City name or location (e.g., London, New York, Delhi, "London, Canada")'),
     units: z.enum(['celsius', 'fahrenheit']).optional().default('celsius'),
+    mode: z
+      .enum(['current', 'hourly', 'daily'])
+      .optional()
+      .default('current')
+      .describe('Current conditions only, an hourly forecast or a daily forecast'),
+    days: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_FORECAST_DAYS)
+      .optional()
+      .default(7)
+      .describe('Days to forecast in daily mode'),
+    hours: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_FORECAST_HOURS)
+      .optional()
+      .default(24)
+      .describe('Hours to forecast in hourly mode'),
+    fresh: freshFlag,
   }),
-  execute: async ({ location, units }) => {
-    console.log(`[Weather] Location: "${location}", Units: ${units}`);
+  execute: async ({ location, units, mode, days, hours }, { abortSignal }) => {
+    console.log(`[Weather] Location: "${location}", Units: ${units}, Mode: ${mode}`);
 
     try {
       // Step 1: Geocode
-      const geoUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(
-        location,
-      )}&count=1`;
-      const geoRes = await withTimeout(fetch(geoUrl));
-      const geoData = await geoRes.json();
+      const match = await geocode(location, abortSignal);
+
+      if (match.ambiguous) {
+        return {
+          query: location,
+          ambiguous: true,
+          candidates: match.candidates.map(describePlace),
+          note: 'Several places share this name. Ask the user which one they mean and call the tool again with the region or country.',
+          timestamp: new Date().toISOString(),
+        };
+      }
 
-      if (!geoData.results || geoData.results.length === 0) {
+      if (!match.place) {
         return {
           location,
           error: 'Location not found',
@@ -113,50 +155,37 @@ export const weatherTool = tool({
         };
       }
 
-      const { latitude, longitude, name, country } = geoData.results[0];
-
       // Step 2: Fetch weather
-      const tempUnit = units === 'fahrenheit' ? 'fahrenheit' : 'celsius';
-      const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current_weather=true&temperature_unit=${tempUnit}&windspeed_unit=kmh`;
-      const weatherRes = await withTimeout(fetch(weatherUrl));
-      const weatherData = await weatherRes.json();
-
-      if (!weatherData.current_weather) {
-        throw new Error('Weather data unavailable');
-      }
-
-      const { temperature, windspeed, weathercode } =
-        weatherData.current_weather;
-
-      const conditions: Record<number, string> = {
-        0: 'Clear sky',
-        1: 'Mainly clear',
-        2: 'Partly cloudy',
-        3: 'Overcast',
-        45: 'Fog',
-        48: 'Depositing rime fog',
-        51: 'Light drizzle',
-        61: 'Rain',
-        71: 'Snowfall',
-        80: 'Rain showers',
-        95: 'Thunderstorm',
-      };
-
-      const condition = conditions[weathercode] || 'Unknown';
+      const forecast = await getForecast(match.place, { mode, units, days, hours }, abortSignal);
+      const { current } = forecast;
 
       return {
-        location: `${name}, ${country}`,
-        temperature,
-        unit: tempUnit,
-        condition,
-        windSpeed: windspeed,
+        location: describePlace(match.place),
+        ...(match.candidates.length > 0 && {
+          otherMatches: match.candidates.map(describePlace),
+        }),
+        mode,
+        temperature: current.temperature,
+        feelsLike: current.feelsLike,
+        unit: units,
+        condition: current.condition.description,
+        severe: current.condition.severe,
+        humidity: current.humidity,
+        precipitationProbability: current.precipitationProbability,
+        windSpeed: current.windSpeed,
+        windGusts: current.windGusts,
+        localTime: forecast.localTime,
+        timezone: forecast.timezone,
+        ...(forecast.hourly && { hourly: forecast.hourly }),
+        ...(forecast.daily && { daily: forecast.daily }),
         timestamp: new Date().toISOString(),
       };
-    } catch (error: any) {
-      console.error('Weather API error:', error.message);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Weather API error:', message);
       return {
         location,
-        error: error.message,
+        error: message,
         timestamp: new Date().toISOString(),
       };
     }
@@ -176,8 +205,9 @@ export const imageSearchTool = tool({
       .optional()
       .default(4)
       .describe('Number of images to return'),
+    fresh: freshFlag,
   }),
-  execute: async ({ query, count }) => {
+  execute: async ({ query, count }, { abortSignal }) => {
     const googleKey = process.env.GOOGLE_API_KEY;
     const googleCx = process.env.GOOGLE_CSE_ID;
     const unsplashKey = process.env.UNSPLASH_ACCESS_KEY;
@@ -199,16 +229,20 @@ export const imageSearchTool = tool({
         const googleUrl = `https://www.googleapis.com/customsearch/v1?q=${encodeURIComponent(
           query,
         )}&searchType=image&num=${count}&key=${googleKey}&cx=${googleCx}`;
-        const res = await withTimeout(fetch(googleUrl));
-        if (res.ok) {
-          const data = await res.json();
-          if (data.items?.length) {
-            return {
-              query,
-              images: formatResults(data.items, 'Google Images'),
-              timestamp: new Date().toISOString(),
-            };
-          }
+        const data = await fetchJson(googleUrl, {
+          provider: 'google-search',
+          signal: abortSignal,
+        }).catch((error) => {
+          if (abortSignal?.aborted) throw error;
+          console.error('Google image search failed:', error.message);
+          return null;
+        });
+        if (data?.items?.length) {
+          return {
+            query,
+            images: formatResults(data.items, 'Google Images'),
+            timestamp: new Date().toISOString(),
+          };
         }
       }
 
@@ -217,16 +251,20 @@ export const imageSearchTool = tool({
         const unsplashUrl = `https://api.unsplash.com/search/photos?query=${encodeURIComponent(
           query,
         )}&per_page=${count}&client_id=${unsplashKey}`;
-        const res = await withTimeout(fetch(unsplashUrl));
-        if (res.ok) {
-          const data = await res.json();
-          if (data.results?.length) {
-            return {
-              query,
-              images: formatResults(data.results, 'Unsplash'),
-              timestamp: new Date().toISOString(),
-            };
-          }
+        const data = await fetchJson(unsplashUrl, {
+          provider: 'unsplash',
+          signal: abortSignal,
+        }).catch((error) => {
+          if (abortSignal?.aborted) throw error;
+          console.error('Unsplash image search failed:', error.message);
+          return null;
+        });
+        if (data?.results?.length) {
+          return {
+            query,
+            images: formatResults(data.results, 'Unsplash'),
+            timestamp: new Date().toISOString(),
+          };
         }
       }
 
@@ -256,33 +294,532 @@ export const imageSearchTool = tool({
  */
 export const calculatorTool = tool({
   description:
-    'Perform mathematical calculations from basic arithmetic to advanced Class-12 level and higher, including trigonometry, logarithms, algebra, and calculus expressions.',
+    'Perform numeric calculations from basic arithmetic to advanced Class-12 level and higher, including trigonometry, logarithms, units, matrices and statistics.',
   inputSchema: z.object({
     expression: z
       .string()
+      .max(MAX_EXPRESSION_LENGTH)
       .describe(
-        'Mathematical expression (e.g., "2 + 2", "sqrt(16)", "sin(45 deg)", "log(100,10)", "integrate(x^2, x)")',
+        'Mathematical expression (e.g., "2 + 2", "sqrt(16)", "sin(45 deg)", "log(100,10)", "5 kg to lb")',
       ),
   }),
   execute: async ({ expression }) => {
     console.log(`[Calculator] Expression: "${expression}"`);
     try {
-      const result = math.evaluate(expression);
+      const { value, latex } = await evaluateExpression(expression);
 
       return {
         expression,
-        result,
+        result: value,
+        latex,
         success: true,
         timestamp: new Date().toISOString(),
       };
-    } catch (error: any) {
-      console.error('Calculation error:', error.message);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Calculation error:', message);
       return {
         expression,
-        error: error.message || 'Invalid or unsupported mathematical expression',
+        error: message || 'Invalid or unsupported mathematical expression',
+        errorCode: error instanceof CalculatorError ? error.code : 'evaluation',
         success: false,
         timestamp: new Date().toISOString(),
       };
     }
   },
-});
\ No newline at end of file
+});
+
+/**
+ * Symbolic Math Tool
+ */
+export const symbolicMathTool = tool({
+  description:
+    'Symbolic math with step-by-step working: derivative, simplify, rationalize, solve (polynomial equations up to degree 3 in one variable) and integrate (basic rules, optionally definite). Use calculator for plain numeric evaluation.',
+  inputSchema: z.object({
+    operation: z.enum(SYMBOLIC_OPERATIONS),
+    expression: z
+      .string()
+      .max(MAX_EXPRESSION_LENGTH)
+      .describe(
+        'Expression in mathjs syntax, or an equation for solve (e.g., "x^3 + sin(2x)", "x^2 - 5x + 6 = 0", "3x^2 + 2x")',
+      ),
+    variable: z
+      .string()
+      .regex(/^[a-zA-Z]\w*$/)
+      .optional()
+      .describe('Variable to differentiate, solve or integrate for, defaults to x'),
+    from: z.number().optional().describe('Lower bound of a definite integral'),
+    to: z.number().optional().describe('Upper bound of a definite integral'),
+  }),
+  execute: async (input) => {
+    console.log(`[Symbolic] ${input.operation}: "${input.expression}"`);
+    try {
+      return {
+        operation: input.operation,
+        expression: input.expression,
+        ...(await runSymbolic(input)),
+        success: true,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Symbolic math error:', message);
+      return {
+        operation: input.operation,
+        expression: input.expression,
+        error: message,
+        errorCode: error instanceof CalculatorError ? error.code : 'evaluation',
+        success: false,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  },
+});
+
+/**
+ * Size Tier Classifier Tool
+ */
+export const sizeTierClassifierTool = tool({
+  description:
+    'Classify a product into its Amazon FBA size tier for a marketplace, with dimensional weight, shipping weight and the exact rule that decided the tier.',
+  inputSchema: z.object({
+    length: z.number().positive().describe('Package length'),
+    width: z.number().positive().describe('Package width'),
+    height: z.number().positive().describe('Package height'),
+    weight: z.number().positive().describe('Unit weight'),
+    units: z
+      .enum(['imperial', 'metric'])
+      .optional()
+      .default('imperial')
+      .describe('imperial = inches and pounds, metric = centimeters and kilograms'),
+    marketplace: z
+      .enum(['US', 'UK', 'EU'])
+      .optional()
+      .default('US')
+      .describe('Marketplace whose size tier rules apply'),
+  }),
+  execute: async ({ length, width, height, weight, units, marketplace }) => {
+    console.log(`[Size Tier] ${length}x${width}x${height}, ${weight} (${units}), ${marketplace}`);
+    try {
+      const result = classifySizeTier(
+        { dimensions: { length, width, height }, weight, units },
+        marketplace,
+      );
+
+      return {
+        ...result,
+        success: true,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Size tier classification error:', message);
+      return {
+        marketplace,
+        error: message,
+        success: false,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  },
+});
+
+/**
+ * FBA Fee Calculator Tool
+ */
+export const fbaFeeCalculatorTool = tool({
+  description:
+    'Calculate Amazon FBA fees (US) for one unit: referral fee, fulfillment fee, closing fee and net proceeds, from the fee table in effect on a date.',
+  inputSchema: z.object({
+    price: z.number().positive().describe('Item selling price in USD'),
+    category: z.enum(FBA_CATEGORIES).describe('Amazon product category'),
+    length: z.number().positive().describe('Package length'),
+    width: z.number().positive().describe('Package width'),
+    height: z.number().positive().describe('Package height'),
+    weight: z.number().positive().describe('Unit weight'),
+    units: z
+      .enum(['imperial', 'metric'])
+      .optional()
+      .default('imperial')
+      .describe('imperial = inches and pounds, metric = centimeters and kilograms'),
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional()
+      .describe('Date (YYYY-MM-DD) whose fee table to use, defaults to today'),
+  }),
+  execute: async ({ price, category, length, width, height, weight, units, date }) => {
+    console.log(`[FBA Fees] ${category} at $${price}`);
+    try {
+      const breakdown = calculateFbaFees({
+        price,
+        category,
+        dimensions: { length, width, height },
+        weight,
+        units,
+        date,
+      });
+
+      return {
+        ...breakdown,
+        success: true,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('FBA fee calculation error:', message);
+      return {
+        price,
+        category,
+        error: message,
+        success: false,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  },
+});
+
+/**
+ * Profit and ROI Calculator Tool
+ */
+export const profitCalculatorTool = tool({
+  description:
+    'Per-unit profit, margin, ROI and breakeven ACoS for an Amazon product from landed cost, FBA fees, PPC spend and sale price, with a sensitivity table across price points. Use fbaFeeCalculator first when the FBA fees are unknown.',
+  inputSchema: z.object({
+    salePrice: z.number().positive().describe('Sale price per unit'),
+    unitCost: z.number().nonnegative().describe('Product cost per unit from the supplier'),
+    freight: z.number().nonnegative().optional().default(0).describe('Freight to Amazon per unit'),
+    duty: z.number().nonnegative().optional().default(0).describe('Import duty per unit'),
+    prep: z.number().nonnegative().optional().default(0).describe('Prep and labeling cost per unit'),
+    ppcPerUnit: z
+      .number()
+      .nonnegative()
+      .optional()
+      .default(0)
+      .describe('Advertising spend per unit sold'),
+    fbaFees: z
+      .number()
+      .nonnegative()
+      .describe('FBA fulfillment fee plus other fixed Amazon fees per unit, excluding the referral fee'),
+    referralFeePercent: z
+      .number()
+      .min(0)
+      .max(100)
+      .optional()
+      .default(15)
+      .describe('Referral fee as a percent of the sale price'),
+    pricePoints: z
+      .array(z.number().positive())
+      .max(12)
+      .optional()
+      .describe('Prices for the sensitivity table, defaults to -20% to +20% of the sale price'),
+  }),
+  execute: async (input) => {
+    console.log(`[Profit] Price $${input.salePrice}, unit cost $${input.unitCost}`);
+    try {
+      return {
+        ...calculateProfit(input),
+        success: true,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Profit calculation error:', message);
+      return {
+        salePrice: input.salePrice,
+        error: message,
+        success: false,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  },
+});
+
+/**
+ * Currency Converter Tool
+ */
+export const currencyConverterTool = tool({
+  description:
+    'Convert an amount between currencies (e.g. USD, GBP, EUR, INR) using cached reference rates, optionally as of a past date. Reports the rate date and source.',
+  inputSchema: z.object({
+    amount: z.number().describe('Amount to convert'),
+    from: z.string().length(3).describe('ISO 4217 code to convert from, e.g. "USD"'),
+    to: z.string().length(3).describe('ISO 4217 code to convert to, e.g. "GBP"'),
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional()
+      .describe('Historical date (YYYY-MM-DD) for the rate, defaults to the latest'),
+  }),
+  execute: async ({ amount, from, to, date }, { abortSignal }) => {
+    console.log(`[Currency] ${amount} ${from} -> ${to}${date ? ` on ${date}` : ''}`);
+    try {
+      const conversion = await convertCurrency({ amount, from, to, date, signal: abortSignal });
+      return {
+        ...conversion,
+        ...(conversion.fallback && {
+          note: `Live rates unavailable, using the bundled table from ${conversion.rateDate}.`,
+        }),
+        success: true,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Currency conversion error:', message);
+      return {
+        amount,
+        from,
+        to,
+        error: message,
+        success: false,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  },
+});
+
+/**
+ * Read Page Tool
+ */
+export const readPageTool = tool({
+  description:
+    'Fetch a web page, such as a webSearch result, and return its main text without navigation or ads, with title, byline and published date. Use it to read sources before answering.',
+  inputSchema: z.object({
+    url: z.string().url().describe('The page URL to read'),
+    maxTokens: z
+      .number()
+      .int()
+      .min(200)
+      .max(8000)
+      .optional()
+      .default(2000)
+      .describe('Token budget for the returned text'),
+  }),
+  execute: async ({ url, maxTokens }, { abortSignal }) => {
+    console.log(`[Read Page] ${url}`);
+
+    try {
+      // Pages are not a provider, so no circuit breaker; the timeout covers reading the body
+      const {
+        url: finalUrl,
+        result: { contentType, body },
+      } = await fetchPublicPage(
+        url,
+        {
+          signal: abortSignal,
+          retries: 1,
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (compatible; FBAIntelligentSearch/1.0)',
+            Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9',
+          },
+        },
+        async (response) => ({
+          contentType: response.headers.get('content-type') ?? '',
+          body: await readBodyText(response, MAX_PAGE_BYTES),
+        }),
+      );
+
+      if (contentType.includes('text/plain')) {
+        const { text, truncated } = truncateToTokens(body.split(/\n{2,}/), maxTokens);
+        return {
+          url: finalUrl,
+          title: null,
+          byline: null,
+          publishedAt: null,
+          siteName: null,
+          text,
+          tokens: estimateTokens(text),
+          truncated,
+          timestamp: new Date().toISOString(),
+        };
+      }
+      if (!/html/.test(contentType)) {
+        throw new Error(`Unsupported content type: ${contentType || 'unknown'}`);
+      }
+
+      const content = extractReadableContent(body, finalUrl, maxTokens);
+      if (!content.text) {
+        throw new Error('No readable text found on the page');
+      }
+
+      return {
+        ...content,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Read page failed:', message);
+      return {
+        url,
+        error: message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  },
+});
+
+/**
+ * Attachment Search Tool
+ *
+ * Built per request because it searches the files attached to one chat.
+ */
+export const createSearchAttachmentsTool = (userId: string, chatId: string) =>
+  tool({
+    description:
+      'Search the files the user attached to this chat (PDF, DOCX, Markdown, CSV) and return the best matching passages with file name and page or section for citation.',
+    inputSchema: z.object({
+      query: z.string().describe('What to look for, in keywords'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(10)
+        .optional()
+        .default(5)
+        .describe('Number of passages to return'),
+    }),
+    execute: async ({ query, limit }) => {
+      console.log(`[Attachments] Query: "${query}"`);
+      try {
+        const chunks = await loadAttachmentChunks(userId, chatId);
+        if (chunks.length === 0) {
+          return {
+            query,
+            results: [],
+            error: 'No files are attached to this chat',
+            timestamp: new Date().toISOString(),
+          };
+        }
+
+        const results = searchChunks(chunks, query, limit).map((match) => ({
+          citation: citeChunk(match),
+          fileName: match.fileName,
+          page: match.page,
+          section: match.section,
+          text: match.text,
+          score: match.score,
+        }));
+
+        return { query, results, timestamp: new Date().toISOString() };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('Attachment search failed:', message);
+        return {
+          query,
+          results: [],
+          error: message,
+          timestamp: new Date().toISOString(),
+        };
+      }
+    },
+  });
+
+/**
+ * Sales Report Tool
+ *
+ * Aggregates the rows of an attached CSV sales report in code, so figures in
+ * the answer are computed rather than estimated by the model.
+ */
+export const createSalesReportTool = (userId: string, chatId: string) =>
+  tool({
+    description:
+      'Analyze an attached Amazon Business Report, order report or sales CSV. Groups rows by ASIN, SKU, week or month and returns a table of summed or averaged units, sales, orders, sessions and page views, optionally with growth. Always use this for figures from sales reports instead of reading the file.',
+    inputSchema: z.object({
+      file: z
+        .string()
+        .optional()
+        .describe('File name of the report, defaults to the most recently attached report'),
+      groupBy: z.enum(SALES_GROUP_BY).optional().default('month'),
+      metrics: z
+        .array(z.enum(SALES_METRICS))
+        .min(1)
+        .optional()
+        .default(['units', 'sales'])
+        .describe('Columns to aggregate'),
+      aggregation: z
+        .enum(['sum', 'average'])
+        .optional()
+        .default('sum')
+        .describe('average is per report row, e.g. per day for reports by date'),
+      growth: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          'Add growth columns: change from the previous week or month, or for ASIN and SKU groups the latest month versus the one before',
+        ),
+      from: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/)
+        .optional()
+        .describe('First date to include, YYYY-MM-DD'),
+      to: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/)
+        .optional()
+        .describe('Last date to include, YYYY-MM-DD'),
+      asin: z.string().optional().describe('Only rows for this ASIN'),
+      sku: z.string().optional().describe('Only rows for this SKU'),
+      sortBy: z
+        .enum(SALES_METRICS)
+        .optional()
+        .describe('Metric to rank ASIN or SKU groups by, defaults to the first metric'),
+      limit: z.number().int().min(1).max(100).optional().default(20),
+    }),
+    execute: async ({ file, ...options }) => {
+      console.log(
+        `[Sales] ${options.groupBy} ${options.aggregation} of ${options.metrics.join(', ')}`,
+      );
+      try {
+        const reports = (await listAttachments(userId, chatId)).filter((a) => a.salesReport);
+        if (reports.length === 0) {
+          return {
+            error: 'No sales report CSV is attached to this chat',
+            timestamp: new Date().toISOString(),
+          };
+        }
+        const attachment = file
+          ? reports.find((a) => a.name.toLowerCase() === file.toLowerCase())
+          : reports[reports.length - 1];
+        if (!attachment) {
+          return {
+            error: `No attached sales report named "${file}"`,
+            availableReports: reports.map((a) => a.name),
+            timestamp: new Date().toISOString(),
+          };
+        }
+
+        const text = await loadAttachmentTable(userId, chatId, attachment.id);
+        const report = text ? parseSalesReport(text) : null;
+        if (!report) {
+          return {
+            file: attachment.name,
+            error: 'The report could not be read, try attaching it again',
+            timestamp: new Date().toISOString(),
+          };
+        }
+
+        return {
+          file: attachment.name,
+          reportType: report.type,
+          columns: report.columns,
+          currency: report.currency,
+          skippedRows: report.skippedRows,
+          groupBy: options.groupBy,
+          aggregation: options.aggregation,
+          ...aggregateSales(report.rows, options),
+          success: true,
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('Sales report analysis failed:', message);
+        return {
+          file,
+          error: message,
+          success: false,
+          timestamp: new Date().toISOString(),
+        };
+      }
+    },
+  });
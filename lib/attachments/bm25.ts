@@ -0,0 +1,131 @@
+import { estimateTokens } from '@/lib/ai/context';
+import type { DocumentSection } from '@/lib/attachments/extract';
+
+/**
+ * Attachment Chunks and BM25 Search
+ *
+ * Sections are split into chunks of a few hundred tokens along paragraph
+ * boundaries, keeping their page or section for citations. Search ranks
+ * chunks with Okapi BM25 computed at query time; a chat holds at most a few
+ * thousand chunks, so no precomputed index is needed.
+ */
+
+export interface AttachmentChunk {
+  attachmentId: string;
+  fileName: string;
+  page?: number;
+  section?: string;
+  text: string;
+}
+
+export interface ChunkMatch extends AttachmentChunk {
+  score: number;
+}
+
+const CHUNK_TOKENS = 300;
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  'a an and are as at be but by for from has have in is it its of on or that the this to was were will with what which who how when where does do'.split(
+    ' ',
+  ),
+);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => !STOPWORDS.has(term),
+  );
+}
+
+// Split a paragraph that alone exceeds the chunk size at sentence ends
+function splitLong(paragraph: string): string[] {
+  if (estimateTokens(paragraph) <= CHUNK_TOKENS) return [paragraph];
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+    if (current && estimateTokens(current + sentence) > CHUNK_TOKENS) {
+      parts.push(current.trim());
+      current = '';
+    }
+    // A single run-on sentence is cut hard
+    for (let i = 0; i < sentence.length; i += CHUNK_TOKENS * 4) {
+      current += sentence.slice(i, i + CHUNK_TOKENS * 4) + ' ';
+      if (estimateTokens(current) > CHUNK_TOKENS) {
+        parts.push(current.trim());
+        current = '';
+      }
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+export function chunkSections(
+  sections: DocumentSection[],
+  { attachmentId, fileName }: { attachmentId: string; fileName: string },
+): AttachmentChunk[] {
+  const chunks: AttachmentChunk[] = [];
+  for (const { text, page, section } of sections) {
+    let current = '';
+    const push = () => {
+      if (current.trim()) {
+        chunks.push({ attachmentId, fileName, page, section, text: current.trim() });
+      }
+      current = '';
+    };
+    const paragraphs = text.split(/\n\s*\n/).flatMap(splitLong);
+    for (const paragraph of paragraphs) {
+      if (current && estimateTokens(current + paragraph) > CHUNK_TOKENS) push();
+      current += `${paragraph}\n\n`;
+    }
+    push();
+  }
+  return chunks;
+}
+
+export function searchChunks(
+  chunks: AttachmentChunk[],
+  query: string,
+  limit: number,
+): ChunkMatch[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || chunks.length === 0) return [];
+
+  const docs = chunks.map((chunk) => {
+    const terms = tokenize(chunk.text);
+    const frequencies = new Map<string, number>();
+    for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    return { length: terms.length, frequencies };
+  });
+  const averageLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+
+  const idf = new Map(
+    queryTerms.map((term) => {
+      const containing = docs.filter((doc) => doc.frequencies.has(term)).length;
+      return [term, Math.log(1 + (docs.length - containing + 0.5) / (containing + 0.5))];
+    }),
+  );
+
+  return chunks
+    .map((chunk, i) => {
+      const { length, frequencies } = docs[i];
+      const score = queryTerms.reduce((sum, term) => {
+        const tf = frequencies.get(term) ?? 0;
+        if (tf === 0) return sum;
+        const norm = tf + K1 * (1 - B + (B * length) / averageLength);
+        return sum + (idf.get(term) ?? 0) * ((tf * (K1 + 1)) / norm);
+      }, 0);
+      return { ...chunk, score: Math.round(score * 1000) / 1000 };
+    })
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// "contract.pdf, p. 3" / "notes.md, Payment terms"
+export function citeChunk(chunk: AttachmentChunk): string {
+  if (chunk.page) return `${chunk.fileName}, p. ${chunk.page}`;
+  if (chunk.section) return `${chunk.fileName}, ${chunk.section}`;
+  return chunk.fileName;
+}
@@ -0,0 +1,117 @@
+import { extractText, getDocumentProxy } from 'unpdf';
+import mammoth from 'mammoth';
+
+/**
+ * Attachment Text Extraction
+ *
+ * Turns an uploaded file into sections of plain text that keep their
+ * location: PDF pages, Markdown headings, CSV row ranges and DOCX parts, so
+ * retrieved passages can be cited.
+ */
+
+export type AttachmentKind = 'pdf' | 'docx' | 'markdown' | 'csv';
+
+export interface DocumentSection {
+  text: string;
+  page?: number; // PDF page, 1-based
+  section?: string; // heading, row range or part
+}
+
+export interface ExtractedDocument {
+  kind: AttachmentKind;
+  pageCount?: number;
+  sections: DocumentSection[];
+}
+
+const CSV_ROWS_PER_SECTION = 50;
+const DOCX_PARAGRAPHS_PER_SECTION = 20;
+
+const KIND_BY_EXTENSION: Record<string, AttachmentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  csv: 'csv',
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(KIND_BY_EXTENSION);
+
+export function attachmentKind(fileName: string): AttachmentKind | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return KIND_BY_EXTENSION[extension] ?? null;
+}
+
+async function extractPdf(bytes: Uint8Array): Promise<ExtractedDocument> {
+  const pdf = await getDocumentProxy(bytes);
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  return {
+    kind: 'pdf',
+    pageCount: totalPages,
+    sections: text.map((pageText, i) => ({ text: pageText, page: i + 1 })),
+  };
+}
+
+async function extractDocx(bytes: Uint8Array): Promise<ExtractedDocument> {
+  // DOCX has no fixed pages, passages are cited by part instead
+  const { value } = await mammoth.extractRawText({ buffer: Buffer.from(bytes) });
+  const paragraphs = value.split(/\n\s*\n/).filter((p) => p.trim());
+  const sections: DocumentSection[] = [];
+  for (let i = 0; i < paragraphs.length; i += DOCX_PARAGRAPHS_PER_SECTION) {
+    sections.push({
+      text: paragraphs.slice(i, i + DOCX_PARAGRAPHS_PER_SECTION).join('\n\n'),
+      section: `part ${sections.length + 1}`,
+    });
+  }
+  return { kind: 'docx', sections };
+}
+
+function extractMarkdown(text: string): ExtractedDocument {
+  const sections: DocumentSection[] = [];
+  let heading: string | undefined;
+  let lines: string[] = [];
+  const flush = () => {
+    if (lines.join('').trim()) sections.push({ text: lines.join('\n'), section: heading });
+    lines = [];
+  };
+  for (const line of text.split('\n')) {
+    const match = line.match(/^#{1,6}\s+(.*)$/);
+    if (match) {
+      flush();
+      heading = match[1].trim();
+    }
+    lines.push(line);
+  }
+  flush();
+  return { kind: 'markdown', sections };
+}
+
+// Rows keep the header so every section can be read on its own
+function extractCsv(text: string): ExtractedDocument {
+  const [header, ...rows] = text.split(/\r?\n/).filter((line) => line.trim());
+  const sections: DocumentSection[] = [];
+  for (let i = 0; i < rows.length; i += CSV_ROWS_PER_SECTION) {
+    const slice = rows.slice(i, i + CSV_ROWS_PER_SECTION);
+    sections.push({
+      text: [header, ...slice].join('\n'),
+      // Row numbers as shown in a spreadsheet, the header is row 1
+      section: `rows ${i + 2}-${i + slice.length + 1}`,
+    });
+  }
+  return { kind: 'csv', sections };
+}
+
+export async function extractDocument(
+  kind: AttachmentKind,
+  bytes: Uint8Array,
+): Promise<ExtractedDocument> {
+  switch (kind) {
+    case 'pdf':
+      return extractPdf(bytes);
+    case 'docx':
+      return extractDocx(bytes);
+    case 'markdown':
+      return extractMarkdown(new TextDecoder().decode(bytes));
+    case 'csv':
+      return extractCsv(new TextDecoder().decode(bytes));
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Chat Images
+ *
+ * Limits and helpers for images sent with chat messages. Images are uploaded
+ * to the chat first and messages carry their URL in a file part, so stored
+ * history stays small. The type is taken from the file's leading bytes, not
+ * from the name or the type the browser reports.
+ */
+
+// Image types Gemini accepts inline, GIF and SVG are not among them
+export const IMAGE_MEDIA_TYPES = ['image/png', 'image/jpeg', 'image/webp'] as const;
+export type ImageMediaType = (typeof IMAGE_MEDIA_TYPES)[number];
+
+export const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+export const MAX_IMAGES_PER_CHAT = 20;
+export const MAX_IMAGES_PER_MESSAGE = 4;
+
+export function sniffImageType(bytes: Uint8Array): ImageMediaType | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  // "RIFF" .... "WEBP"
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp';
+  }
+  return null;
+}
+
+export const chatImageUrl = (chatId: string, imageId: string) =>
+  `/api/chats/${encodeURIComponent(chatId)}/images/${encodeURIComponent(imageId)}`;
+
+// Image id from a file part URL, or null when it is not an image of this chat
+export function chatImageId(url: string, chatId: string): string | null {
+  const prefix = `/api/chats/${encodeURIComponent(chatId)}/images/`;
+  if (!url.startsWith(prefix)) return null;
+  const id = decodeURIComponent(url.slice(prefix.length));
+  return /^[\w-]+$/.test(id) ? id : null;
+}
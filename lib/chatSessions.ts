@@ -6,6 +6,15 @@ export interface ChatSession {
   updatedAt: number;
 }
 
+// Server-side index entry returned by /api/chats
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
 export interface Message {
   id: string;
   content: string;
@@ -106,3 +115,26 @@ export function deleteSession(sessionId: string): void {
 export function clearAllSessions(): void {
   saveChatSessions([]);
 }
+
+export async function fetchChatSessions(): Promise<ChatSessionSummary[]> {
+  const res = await fetch("/api/chats");
+  if (!res.ok) throw new Error(`Failed to load chats: ${res.status}`);
+  const data = await res.json();
+  return data.sessions;
+}
+
+export async function renameChatSession(sessionId: string, title: string): Promise<ChatSessionSummary> {
+  const res = await fetch(`/api/chats/${encodeURIComponent(sessionId)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ title }),
+  });
+  if (!res.ok) throw new Error(`Failed to rename chat: ${res.status}`);
+  const data = await res.json();
+  return data.session;
+}
+
+export async function removeChatSession(sessionId: string): Promise<void> {
+  const res = await fetch(`/api/chats/${encodeURIComponent(sessionId)}`, { method: "DELETE" });
+  if (!res.ok && res.status !== 404) throw new Error(`Failed to delete chat: ${res.status}`);
+}
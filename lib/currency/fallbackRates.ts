@@ -0,0 +1,30 @@
+import type { RateTable } from '@/lib/currency/rates';
+
+/**
+ * Bundled Fallback Rates
+ *
+ * Approximate ECB reference rates against USD, used when no live provider is
+ * reachable. Refresh the table and its date when updating.
+ */
+export const FALLBACK_RATES: RateTable = {
+  base: 'USD',
+  date: '2025-01-02',
+  source: 'bundled fallback table (ECB reference rates, approximate)',
+  rates: {
+    USD: 1,
+    EUR: 0.9662,
+    GBP: 0.8034,
+    INR: 85.75,
+    JPY: 157.1,
+    CAD: 1.4404,
+    AUD: 1.6126,
+    MXN: 20.58,
+    BRL: 6.1771,
+    CNY: 7.3227,
+    SEK: 11.0787,
+    PLN: 4.1326,
+    TRY: 35.36,
+    AED: 3.6725,
+    SGD: 1.3671,
+  },
+};
@@ -0,0 +1,165 @@
+import { redis } from '@/lib/database/redis';
+import { FALLBACK_RATES } from '@/lib/currency/fallbackRates';
+import { fetchJson } from '@/lib/http/client';
+
+/**
+ * Currency Rates
+ *
+ * Conversion goes through a chain of rate providers, live first and the
+ * bundled table last, so a result is always available offline. Fetched
+ * tables are cached in Redis: latest rates for a few hours, historical
+ * rates much longer since they do not change.
+ */
+
+export interface RateTable {
+  base: string;
+  date: string; // YYYY-MM-DD the rates were published for
+  source: string;
+  rates: Record<string, number>; // units of each currency per 1 base
+}
+
+export interface RateProvider {
+  name: string;
+  // `date` is YYYY-MM-DD, omitted for the latest rates
+  getRates(base: string, date?: string, signal?: AbortSignal): Promise<RateTable>;
+}
+
+export interface Conversion {
+  amount: number;
+  from: string;
+  to: string;
+  rate: number;
+  converted: number;
+  rateDate: string;
+  source: string;
+  cached: boolean;
+  fallback: boolean; // bundled table used because live rates were unavailable
+}
+
+const LATEST_TTL_SECONDS = Number(process.env.FX_CACHE_TTL_SECONDS) || 60 * 60 * 6;
+const HISTORICAL_TTL_SECONDS = 60 * 60 * 24 * 30;
+const FETCH_TIMEOUT_MS = 8000;
+
+const cacheKey = (provider: string, base: string, date?: string) =>
+  `fx:${provider}:${base}:${date ?? 'latest'}`;
+
+// ECB reference rates through the free Frankfurter API, with historical dates
+export const frankfurterProvider: RateProvider = {
+  name: 'frankfurter',
+  async getRates(base, date, signal) {
+    const url = `https://api.frankfurter.app/${date ?? 'latest'}?from=${encodeURIComponent(base)}`;
+    const data = await fetchJson(url, {
+      provider: 'frankfurter',
+      timeoutMs: FETCH_TIMEOUT_MS,
+      signal,
+    });
+    return {
+      base: data.base,
+      date: data.date,
+      source: 'European Central Bank via frankfurter.app',
+      rates: { ...data.rates, [data.base]: 1 },
+    };
+  },
+};
+
+// Offline table, cross rates are derived from its USD base
+export const bundledProvider: RateProvider = {
+  name: 'bundled',
+  async getRates(base, date) {
+    // A single snapshot cannot stand in for another day's rates
+    if (date && date !== FALLBACK_RATES.date) {
+      throw new Error(`Historical rate unavailable for ${date}: live rates could not be fetched`);
+    }
+    const baseRate = FALLBACK_RATES.rates[base];
+    if (!baseRate) throw new Error(`Currency not in the bundled table: ${base}`);
+    const rates = Object.fromEntries(
+      Object.entries(FALLBACK_RATES.rates).map(([code, rate]) => [code, rate / baseRate]),
+    );
+    return { ...FALLBACK_RATES, base, rates };
+  },
+};
+
+const PROVIDERS: Record<string, RateProvider> = {
+  frankfurter: frankfurterProvider,
+  bundled: bundledProvider,
+};
+
+// CURRENCY_RATE_PROVIDERS=frankfurter,bundled sets the order, the bundled table always ends the chain
+function providerChain(): RateProvider[] {
+  const names = (process.env.CURRENCY_RATE_PROVIDERS || 'frankfurter,bundled')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name in PROVIDERS);
+  const chain = names.map((name) => PROVIDERS[name]);
+  return chain.includes(bundledProvider) ? chain : [...chain, bundledProvider];
+}
+
+async function cachedRates(
+  provider: RateProvider,
+  base: string,
+  date: string | undefined,
+  signal?: AbortSignal,
+): Promise<{ table: RateTable; cached: boolean }> {
+  // The bundled table is already local
+  if (provider === bundledProvider || !redis) {
+    return { table: await provider.getRates(base, date, signal), cached: false };
+  }
+  const key = cacheKey(provider.name, base, date);
+  try {
+    const hit = await redis.get<RateTable>(key);
+    if (hit) return { table: hit, cached: true };
+  } catch (error) {
+    console.error('Error reading currency rates from Redis:', error);
+  }
+  const table = await provider.getRates(base, date, signal);
+  try {
+    await redis.set(key, JSON.stringify(table), {
+      ex: date ? HISTORICAL_TTL_SECONDS : LATEST_TTL_SECONDS,
+    });
+  } catch (error) {
+    console.error('Error caching currency rates in Redis:', error);
+  }
+  return { table, cached: false };
+}
+
+export async function convertCurrency({
+  amount,
+  from,
+  to,
+  date,
+  signal,
+}: {
+  amount: number;
+  from: string;
+  to: string;
+  date?: string;
+  signal?: AbortSignal;
+}): Promise<Conversion> {
+  const base = from.toUpperCase();
+  const target = to.toUpperCase();
+  let lastError: unknown;
+
+  for (const provider of providerChain()) {
+    try {
+      const { table, cached } = await cachedRates(provider, base, date, signal);
+      const rate = table.rates[target];
+      if (!rate) throw new Error(`No ${base}→${target} rate from ${provider.name}`);
+      return {
+        amount,
+        from: base,
+        to: target,
+        rate,
+        converted: Math.round(amount * rate * 100) / 100,
+        rateDate: table.date,
+        source: table.source,
+        cached,
+        fallback: provider === bundledProvider,
+      };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      lastError = error;
+      console.error(`Currency provider ${provider.name} failed:`, error);
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error('No currency rates available');
+}
@@ -0,0 +1,116 @@
+import { redis } from '@/lib/database/redis';
+import type { AttachmentKind } from '@/lib/attachments/extract';
+import type { AttachmentChunk } from '@/lib/attachments/bm25';
+import type { SalesReportType } from '@/lib/sales/report';
+
+/**
+ * Chat Attachments
+ *
+ * Each chat keeps a hash of its attachments and, per attachment, the list of
+ * text chunks used for retrieval. Original files are not stored, except the
+ * text of CSV sales reports, which the sales analytics tool aggregates.
+ * Entries expire with the chat.
+ */
+
+const ATTACHMENT_TTL_SECONDS = 60 * 60 * 24 * 7; // same as chats
+
+export interface AttachmentInfo {
+  id: string;
+  name: string;
+  kind: AttachmentKind;
+  size: number; // bytes
+  pageCount?: number;
+  chunkCount: number;
+  uploadedAt: number;
+  salesReport?: {
+    type: SalesReportType;
+    rowCount: number;
+    columns: string[]; // detected fields
+  };
+}
+
+const attachmentsKey = (userId: string, chatId: string) =>
+  `attachments:${userId}:${chatId}`;
+const chunksKey = (userId: string, chatId: string, attachmentId: string) =>
+  `attachment_chunks:${userId}:${chatId}:${attachmentId}`;
+const tableKey = (userId: string, chatId: string, attachmentId: string) =>
+  `attachment_table:${userId}:${chatId}:${attachmentId}`;
+
+// Upstash deserializes JSON automatically, so values may already be objects
+const parseStored = <T>(data: unknown): T | null =>
+  data == null ? null : typeof data === 'string' ? (JSON.parse(data) as T) : (data as T);
+
+export async function listAttachments(userId: string, chatId: string): Promise<AttachmentInfo[]> {
+  if (!redis) return [];
+  const entries = await redis.hgetall<Record<string, unknown>>(attachmentsKey(userId, chatId));
+  if (!entries) return [];
+  return Object.values(entries)
+    .map((value) => parseStored<AttachmentInfo>(value))
+    .filter((info): info is AttachmentInfo => info !== null)
+    .sort((a, b) => a.uploadedAt - b.uploadedAt);
+}
+
+export async function saveAttachment(
+  userId: string,
+  chatId: string,
+  info: AttachmentInfo,
+  chunks: AttachmentChunk[],
+  table?: string, // raw CSV text of a sales report
+): Promise<void> {
+  if (!redis) throw new Error('Attachment storage is not configured');
+  const key = chunksKey(userId, chatId, info.id);
+  await redis.set(key, JSON.stringify(chunks), { ex: ATTACHMENT_TTL_SECONDS });
+  if (table !== undefined) {
+    await redis.set(tableKey(userId, chatId, info.id), JSON.stringify(table), {
+      ex: ATTACHMENT_TTL_SECONDS,
+    });
+  }
+  await redis.hset(attachmentsKey(userId, chatId), { [info.id]: JSON.stringify(info) });
+  await redis.expire(attachmentsKey(userId, chatId), ATTACHMENT_TTL_SECONDS);
+}
+
+export async function deleteAttachment(
+  userId: string,
+  chatId: string,
+  attachmentId: string,
+): Promise<boolean> {
+  if (!redis) return false;
+  const removed = await redis.hdel(attachmentsKey(userId, chatId), attachmentId);
+  await redis.del(chunksKey(userId, chatId, attachmentId), tableKey(userId, chatId, attachmentId));
+  return removed > 0;
+}
+
+export async function deleteChatAttachments(userId: string, chatId: string): Promise<void> {
+  if (!redis) return;
+  const attachments = await listAttachments(userId, chatId);
+  await redis.del(
+    attachmentsKey(userId, chatId),
+    ...attachments.flatMap((a) => [
+      chunksKey(userId, chatId, a.id),
+      tableKey(userId, chatId, a.id),
+    ]),
+  );
+}
+
+export async function loadAttachmentTable(
+  userId: string,
+  chatId: string,
+  attachmentId: string,
+): Promise<string | null> {
+  if (!redis) return null;
+  return parseStored<string>(await redis.get<unknown>(tableKey(userId, chatId, attachmentId)));
+}
+
+// Every chunk of every attachment in the chat
+export async function loadAttachmentChunks(
+  userId: string,
+  chatId: string,
+): Promise<AttachmentChunk[]> {
+  if (!redis) return [];
+  const attachments = await listAttachments(userId, chatId);
+  if (attachments.length === 0) return [];
+  const values = await redis.mget<unknown[]>(
+    ...attachments.map((a) => chunksKey(userId, chatId, a.id)),
+  );
+  return values.flatMap((value) => parseStored<AttachmentChunk[]>(value) ?? []);
+}
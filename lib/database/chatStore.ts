@@ -0,0 +1,403 @@
+import type { UIMessage } from 'ai';
+import { redis } from '@/lib/database/redis';
+import { deleteChatAttachments } from '@/lib/database/attachmentStore';
+import { deleteChatImages } from '@/lib/database/imageStore';
+import type { ChatSessionSummary } from '@/lib/chatSessions';
+
+const CHAT_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+const DEFAULT_TITLE = 'New Chat';
+
+const messagesKey = (userId: string, chatId: string) =>
+  `chat:${userId}:${chatId}`;
+const indexKey = (userId: string) => `chats:${userId}`;
+const summaryKey = (userId: string, chatId: string) =>
+  `chat_summary:${userId}:${chatId}`;
+
+// Upstash deserializes JSON automatically, older entries were stored as strings
+function parseStored<T>(data: unknown): T | null {
+  if (data == null) return null;
+  if (typeof data === 'string') return JSON.parse(data) as T;
+  return data as T;
+}
+
+// Derive a sidebar title from the first user message
+function titleFromMessages(messages: UIMessage[]): string | null {
+  const firstUser = messages.find((m) => m.role === 'user');
+  const text = firstUser?.parts
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .join(' ')
+    .trim();
+  if (!text) return null;
+  return text.length > 50 ? `${text.slice(0, 50)}...` : text;
+}
+
+async function writeSummary(userId: string, summary: ChatSessionSummary) {
+  if (!redis) return;
+  await redis.hset(indexKey(userId), { [summary.id]: JSON.stringify(summary) });
+  await redis.expire(indexKey(userId), CHAT_TTL_SECONDS);
+}
+
+// List chat sessions for a user, most recently updated first
+export async function listChatSessions(
+  userId: string,
+): Promise<ChatSessionSummary[]> {
+  if (!redis) {
+    console.warn('Redis client not available. Returning no chat sessions.');
+    return [];
+  }
+  try {
+    const entries = await redis.hgetall<Record<string, unknown>>(
+      indexKey(userId),
+    );
+    if (!entries) return [];
+    return Object.values(entries)
+      .map((value) => parseStored<ChatSessionSummary>(value))
+      .filter((s): s is ChatSessionSummary => s !== null)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error('Error listing chat sessions from Redis:', error);
+    return [];
+  }
+}
+
+// Load a single session summary from the index
+export async function getChatSession(
+  userId: string,
+  chatId: string,
+): Promise<ChatSessionSummary | null> {
+  if (!redis) return null;
+  try {
+    const value = await redis.hget(indexKey(userId), chatId);
+    return parseStored<ChatSessionSummary>(value);
+  } catch (error) {
+    console.error('Error loading chat session from Redis:', error);
+    return null;
+  }
+}
+
+// Create an empty session entry in the index, an existing entry with the id is kept as it is
+export async function createChatSession(
+  userId: string,
+  { id, title }: { id: string; title?: string },
+): Promise<{ session: ChatSessionSummary; created: boolean }> {
+  const now = Date.now();
+  const summary: ChatSessionSummary = {
+    id,
+    title: title?.trim() || DEFAULT_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messageCount: 0,
+  };
+  if (!redis) {
+    console.warn('Redis client not available. Session will not be saved.');
+    return { session: summary, created: true };
+  }
+  // HSETNX so a client-supplied id never overwrites an existing chat
+  const created = await redis.hsetnx(indexKey(userId), id, JSON.stringify(summary));
+  if (!created) {
+    const existing = await getChatSession(userId, id);
+    if (existing) return { session: existing, created: false };
+    // Deleted in between, or unreadable
+    await writeSummary(userId, summary);
+    return { session: summary, created: true };
+  }
+  await redis.expire(indexKey(userId), CHAT_TTL_SECONDS);
+  return { session: summary, created: true };
+}
+
+// Rename a session, returns null when it does not exist
+export async function renameChatSession(
+  userId: string,
+  chatId: string,
+  title: string,
+): Promise<ChatSessionSummary | null> {
+  const existing = await getChatSession(userId, chatId);
+  if (!existing) return null;
+  const summary = { ...existing, title, updatedAt: Date.now() };
+  await writeSummary(userId, summary);
+  return summary;
+}
+
+// Delete a session and its stored messages
+export async function deleteChatSession(
+  userId: string,
+  chatId: string,
+): Promise<boolean> {
+  if (!redis) return false;
+  const removed = await redis.hdel(indexKey(userId), chatId);
+  await redis.del(messagesKey(userId, chatId), summaryKey(userId, chatId));
+  await deleteChatAttachments(userId, chatId);
+  await deleteChatImages(userId, chatId);
+  return removed > 0;
+}
+
+/**
+ * Message Tree
+ *
+ * A chat is stored as a tree: every message keeps the id of the message it
+ * answers or follows. Editing an earlier user message adds a sibling instead
+ * of overwriting it, so the old continuation stays reachable as a branch.
+ * Regenerating an answer adds a sibling assistant message, a version of
+ * that turn. `activeLeafId` marks the end of the branch currently shown.
+ */
+export type StoredMessage = UIMessage & { parentId: string | null };
+
+export interface ChatTree {
+  messages: StoredMessage[]; // every node, in insertion order
+  activeLeafId: string | null;
+}
+
+const emptyTree = (): ChatTree => ({ messages: [], activeLeafId: null });
+
+// Chats saved before branching were a flat array, read them as a single path
+function toTree(data: ChatTree | UIMessage[] | null): ChatTree {
+  if (!data) return emptyTree();
+  if (!Array.isArray(data)) return data;
+  return {
+    messages: data.map((m, i) => ({ ...m, parentId: i > 0 ? data[i - 1].id : null })),
+    activeLeafId: data.length > 0 ? data[data.length - 1].id : null,
+  };
+}
+
+function stripParent(message: StoredMessage): UIMessage {
+  const copy: Partial<StoredMessage> = { ...message };
+  delete copy.parentId;
+  return copy as UIMessage;
+}
+
+export function findMessage(tree: ChatTree, messageId: string): StoredMessage | undefined {
+  return tree.messages.find((m) => m.id === messageId);
+}
+
+// Messages from the root down to `messageId`, inclusive
+export function messagePath(tree: ChatTree, messageId: string | null): UIMessage[] {
+  const byId = new Map(tree.messages.map((m) => [m.id, m]));
+  const path: UIMessage[] = [];
+  let current = messageId ? byId.get(messageId) : undefined;
+  while (current && path.length <= tree.messages.length) {
+    path.unshift(stripParent(current));
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+function siblingsOf(tree: ChatTree, message: UIMessage): StoredMessage[] {
+  const parentId = findMessage(tree, message.id)?.parentId ?? null;
+  return tree.messages.filter((m) => m.parentId === parentId && m.role === message.role);
+}
+
+// Sibling ids for each user message on the path that was edited
+export function messageBranches(
+  tree: ChatTree,
+  path: UIMessage[],
+): Record<string, string[]> {
+  const branches: Record<string, string[]> = {};
+  for (const message of path.filter((m) => m.role === 'user')) {
+    const siblings = siblingsOf(tree, message);
+    if (siblings.length > 1) branches[message.id] = siblings.map((m) => m.id);
+  }
+  return branches;
+}
+
+// All versions of each regenerated assistant message on the path
+export function messageVersions(
+  tree: ChatTree,
+  path: UIMessage[],
+): Record<string, UIMessage[]> {
+  const versions: Record<string, UIMessage[]> = {};
+  for (const message of path.filter((m) => m.role === 'assistant')) {
+    const siblings = siblingsOf(tree, message);
+    if (siblings.length > 1) versions[message.id] = siblings.map(stripParent);
+  }
+  return versions;
+}
+
+export async function loadChatTree(userId: string, chatId: string): Promise<ChatTree> {
+  if (!redis) {
+    console.warn('Redis client not available. Skipping chat history load.');
+    return emptyTree();
+  }
+  try {
+    const data = await redis.get(messagesKey(userId, chatId));
+    return toTree(parseStored<ChatTree | UIMessage[]>(data));
+  } catch (error) {
+    console.error('Error loading chat history from Redis:', error);
+    return emptyTree();
+  }
+}
+
+async function saveChatTree(userId: string, chatId: string, tree: ChatTree) {
+  if (!redis) {
+    console.warn('Redis client not available. Skipping chat history save.');
+    return;
+  }
+  const key = messagesKey(userId, chatId);
+  try {
+    await redis.set(key, JSON.stringify(tree));
+    await redis.expire(key, CHAT_TTL_SECONDS);
+
+    const path = messagePath(tree, tree.activeLeafId);
+    const existing = await getChatSession(userId, chatId);
+    const now = Date.now();
+    await writeSummary(userId, {
+      id: chatId,
+      title:
+        existing && existing.title !== DEFAULT_TITLE
+          ? existing.title
+          : (titleFromMessages(path) ?? DEFAULT_TITLE),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      messageCount: path.length,
+    });
+  } catch (error) {
+    console.error('Error saving chat history to Redis:', error);
+  }
+}
+
+// Load the messages on the active branch
+export async function loadChatMessages(
+  userId: string,
+  chatId: string,
+): Promise<UIMessage[]> {
+  const tree = await loadChatTree(userId, chatId);
+  return messagePath(tree, tree.activeLeafId);
+}
+
+// Merge a root-to-leaf path into the tree and make it the active branch
+export async function saveChatMessages(
+  userId: string,
+  chatId: string,
+  messages: UIMessage[],
+): Promise<void> {
+  const tree = await loadChatTree(userId, chatId);
+  const indexById = new Map(tree.messages.map((m, i) => [m.id, i]));
+  messages.forEach((message, i) => {
+    const stored = { ...message, parentId: i > 0 ? messages[i - 1].id : null };
+    const index = indexById.get(message.id);
+    if (index === undefined) {
+      tree.messages.push(stored);
+    } else {
+      tree.messages[index] = stored;
+    }
+  });
+  tree.activeLeafId = messages.length > 0 ? messages[messages.length - 1].id : null;
+  await saveChatTree(userId, chatId, tree);
+}
+
+// Show the branch through `messageId`. Each fork below it follows the accepted
+// version, or the newest child when none was accepted. With `accept`, the
+// message is recorded as the accepted version among its siblings.
+export async function switchChatBranch(
+  userId: string,
+  chatId: string,
+  messageId: string,
+  { accept = false }: { accept?: boolean } = {},
+): Promise<boolean> {
+  const tree = await loadChatTree(userId, chatId);
+  const target = findMessage(tree, messageId);
+  if (!target) return false;
+
+  if (accept) {
+    const siblingIds = new Set(siblingsOf(tree, target).map((m) => m.id));
+    tree.messages = tree.messages.map((m) =>
+      siblingIds.has(m.id)
+        ? { ...m, metadata: { ...(m.metadata as object), accepted: m.id === messageId } }
+        : m,
+    );
+  }
+
+  const isAccepted = (m: StoredMessage) =>
+    (m.metadata as { accepted?: boolean } | undefined)?.accepted === true;
+  let leafId = messageId;
+  for (;;) {
+    const children = tree.messages.filter((m) => m.parentId === leafId);
+    if (children.length === 0) break;
+    leafId = (children.find(isAccepted) ?? children[children.length - 1]).id;
+  }
+  tree.activeLeafId = leafId;
+  await saveChatTree(userId, chatId, tree);
+  return true;
+}
+
+export interface ChatMessagesPage {
+  messages: UIMessage[];
+  nextCursor: string | null;
+  branches: Record<string, string[]>; // sibling ids of edited user messages
+  versions: Record<string, UIMessage[]>; // versions of regenerated answers
+}
+
+// Load a page of the active branch ending just before the `before` message id
+export async function loadChatMessagesPage(
+  userId: string,
+  chatId: string,
+  { before, limit }: { before?: string | null; limit: number },
+): Promise<ChatMessagesPage> {
+  const tree = await loadChatTree(userId, chatId);
+  const messages = messagePath(tree, tree.activeLeafId);
+  let end = messages.length;
+  if (before) {
+    const index = messages.findIndex((m) => m.id === before);
+    end = index === -1 ? 0 : index;
+  }
+  const start = Math.max(0, end - limit);
+  const page = messages.slice(start, end);
+  return {
+    messages: page,
+    nextCursor: start > 0 ? messages[start].id : null,
+    branches: messageBranches(tree, page),
+    versions: messageVersions(tree, page),
+  };
+}
+
+// Merge metadata into one stored message, returns the updated message
+export async function updateMessageMetadata(
+  userId: string,
+  chatId: string,
+  messageId: string,
+  metadata: Record<string, unknown>,
+): Promise<UIMessage | null> {
+  const tree = await loadChatTree(userId, chatId);
+  const index = tree.messages.findIndex((m) => m.id === messageId);
+  if (index === -1) return null;
+  const updated = {
+    ...tree.messages[index],
+    metadata: { ...(tree.messages[index].metadata as object), ...metadata },
+  };
+  tree.messages[index] = updated;
+  await saveChatTree(userId, chatId, tree);
+  return stripParent(updated);
+}
+
+export interface ChatSummary {
+  text: string;
+  summarizedUntil: string | null; // id of the last message folded into the summary
+  updatedAt: number;
+}
+
+export async function loadChatSummary(
+  userId: string,
+  chatId: string,
+): Promise<ChatSummary | null> {
+  if (!redis) return null;
+  try {
+    return parseStored<ChatSummary>(await redis.get(summaryKey(userId, chatId)));
+  } catch (error) {
+    console.error('Error loading chat summary from Redis:', error);
+    return null;
+  }
+}
+
+export async function saveChatSummary(
+  userId: string,
+  chatId: string,
+  summary: ChatSummary,
+): Promise<void> {
+  if (!redis) return;
+  try {
+    const key = summaryKey(userId, chatId);
+    await redis.set(key, JSON.stringify(summary));
+    await redis.expire(key, CHAT_TTL_SECONDS);
+  } catch (error) {
+    console.error('Error saving chat summary to Redis:', error);
+  }
+}
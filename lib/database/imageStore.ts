@@ -0,0 +1,108 @@
+import type { UIMessage } from 'ai';
+import { redis } from '@/lib/database/redis';
+import { chatImageId, type ImageMediaType } from '@/lib/attachments/images';
+
+/**
+ * Chat Image Storage
+ *
+ * Images sent with messages are kept per chat as base64, with a set of their
+ * ids so the chat can count and delete them. Entries expire with the chat.
+ */
+
+const IMAGE_TTL_SECONDS = 60 * 60 * 24 * 7; // same as chats
+
+export interface ChatImage {
+  id: string;
+  name: string;
+  mediaType: ImageMediaType;
+  size: number; // bytes
+  url: string;
+}
+
+interface StoredImage extends ChatImage {
+  data: string; // base64
+  uploadedAt: number;
+}
+
+const imagesKey = (userId: string, chatId: string) => `chat_images:${userId}:${chatId}`;
+const imageKey = (userId: string, chatId: string, imageId: string) =>
+  `chat_image:${userId}:${chatId}:${imageId}`;
+
+// Upstash deserializes JSON automatically, so values may already be objects
+const parseStored = <T>(data: unknown): T | null =>
+  data == null ? null : typeof data === 'string' ? (JSON.parse(data) as T) : (data as T);
+
+export async function countChatImages(userId: string, chatId: string): Promise<number> {
+  if (!redis) return 0;
+  return redis.scard(imagesKey(userId, chatId));
+}
+
+export async function saveChatImage(
+  userId: string,
+  chatId: string,
+  image: ChatImage,
+  bytes: Uint8Array,
+): Promise<void> {
+  if (!redis) throw new Error('Image storage is not configured');
+  const stored: StoredImage = {
+    ...image,
+    data: Buffer.from(bytes).toString('base64'),
+    uploadedAt: Date.now(),
+  };
+  await redis.set(imageKey(userId, chatId, image.id), JSON.stringify(stored), {
+    ex: IMAGE_TTL_SECONDS,
+  });
+  await redis.sadd(imagesKey(userId, chatId), image.id);
+  await redis.expire(imagesKey(userId, chatId), IMAGE_TTL_SECONDS);
+}
+
+export async function loadChatImage(
+  userId: string,
+  chatId: string,
+  imageId: string,
+): Promise<{ mediaType: ImageMediaType; data: string } | null> {
+  if (!redis) return null;
+  const stored = parseStored<StoredImage>(await redis.get(imageKey(userId, chatId, imageId)));
+  return stored && { mediaType: stored.mediaType, data: stored.data };
+}
+
+export async function deleteChatImages(userId: string, chatId: string): Promise<void> {
+  if (!redis) return;
+  const ids = await redis.smembers(imagesKey(userId, chatId));
+  await redis.del(imagesKey(userId, chatId), ...ids.map((id) => imageKey(userId, chatId, id)));
+}
+
+// Removes one image, e.g. taken off a message before it was sent
+export async function deleteChatImage(
+  userId: string,
+  chatId: string,
+  imageId: string,
+): Promise<boolean> {
+  if (!redis) return false;
+  const removed = await redis.srem(imagesKey(userId, chatId), imageId);
+  await redis.del(imageKey(userId, chatId, imageId));
+  return removed > 0;
+}
+
+// The model provider cannot fetch the chat's image URLs, so images go inline as data URLs
+export async function inlineChatImages<M extends UIMessage>(
+  userId: string,
+  chatId: string,
+  messages: M[],
+): Promise<M[]> {
+  return Promise.all(
+    messages.map(async (message) => {
+      if (!message.parts.some((part) => part.type === 'file')) return message;
+      const parts = await Promise.all(
+        message.parts.map(async (part) => {
+          if (part.type !== 'file') return part;
+          const imageId = chatImageId(part.url, chatId);
+          const image = imageId && (await loadChatImage(userId, chatId, imageId));
+          if (!image) return { type: 'text' as const, text: '[Image no longer available]' };
+          return { ...part, url: `data:${image.mediaType};base64,${image.data}` };
+        }),
+      );
+      return { ...message, parts };
+    }),
+  );
+}
@@ -0,0 +1,167 @@
+import { redis } from '@/lib/database/redis';
+
+/**
+ * Resumable Stream Buffer
+ *
+ * Every SSE chunk of an active generation is appended to a Redis list keyed by
+ * chat and message id, so a client that reloads or loses its connection can
+ * reattach and replay from the last chunk it received.
+ */
+
+const STREAM_TTL_SECONDS = 60 * 15;
+const FINISHED_TTL_SECONDS = 60;
+const FLUSH_INTERVAL_MS = 200;
+const STOP_POLL_INTERVAL_MS = 500;
+
+export interface ActiveStream {
+  messageId: string;
+  startedAt: number;
+  done: boolean;
+}
+
+const activeKey = (userId: string, chatId: string) =>
+  `stream_active:${userId}:${chatId}`;
+const chunksKey = (userId: string, chatId: string, messageId: string) =>
+  `stream:${userId}:${chatId}:${messageId}`;
+const stopKey = (userId: string, chatId: string) =>
+  `stream_stop:${userId}:${chatId}`;
+
+export async function getActiveStream(
+  userId: string,
+  chatId: string,
+): Promise<ActiveStream | null> {
+  if (!redis) return null;
+  const data = await redis.get<ActiveStream | string>(activeKey(userId, chatId));
+  if (!data) return null;
+  return typeof data === 'string' ? (JSON.parse(data) as ActiveStream) : data;
+}
+
+// Read buffered chunks starting at `cursor` (number of chunks already seen)
+export async function readStreamChunks(
+  userId: string,
+  chatId: string,
+  messageId: string,
+  cursor: number,
+): Promise<string[]> {
+  if (!redis) return [];
+  const chunks = await redis.lrange<unknown>(
+    chunksKey(userId, chatId, messageId),
+    cursor,
+    -1,
+  );
+  // Upstash may deserialize JSON-looking values, chunks are always SSE text
+  return chunks.map((chunk) =>
+    typeof chunk === 'string' ? chunk : JSON.stringify(chunk),
+  );
+}
+
+async function setActive(userId: string, chatId: string, stream: ActiveStream, ttl: number) {
+  if (!redis) return;
+  await redis.set(activeKey(userId, chatId), JSON.stringify(stream), { ex: ttl });
+}
+
+// Copy an SSE stream into Redis, batching writes to limit REST round trips
+export async function bufferStream({
+  userId,
+  chatId,
+  messageId,
+  stream,
+}: {
+  userId: string;
+  chatId: string;
+  messageId: string;
+  stream: ReadableStream<string>;
+}): Promise<void> {
+  const client = redis;
+  if (!client) {
+    await stream.cancel();
+    return;
+  }
+  const key = chunksKey(userId, chatId, messageId);
+  const active: ActiveStream = { messageId, startedAt: Date.now(), done: false };
+  await client.del(key);
+  await setActive(userId, chatId, active, STREAM_TTL_SECONDS);
+
+  let pending: string[] = [];
+  let lastFlush = Date.now();
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const batch = pending;
+    pending = [];
+    lastFlush = Date.now();
+    await client.rpush(key, ...batch);
+    await client.expire(key, STREAM_TTL_SECONDS);
+  };
+
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending.push(value);
+      if (Date.now() - lastFlush >= FLUSH_INTERVAL_MS) {
+        await flush();
+      }
+    }
+    await flush();
+  } catch (error) {
+    console.error('Error buffering stream to Redis:', error);
+  } finally {
+    // Keep the tail briefly so a reconnect right after the end can still replay it
+    await setActive(userId, chatId, { ...active, done: true }, FINISHED_TTL_SECONDS);
+    await client.expire(key, FINISHED_TTL_SECONDS);
+  }
+}
+
+// Ask the instance running the active generation to abort it
+export async function requestStreamStop(userId: string, chatId: string): Promise<boolean> {
+  if (!redis) return false;
+  const active = await getActiveStream(userId, chatId);
+  if (!active || active.done) return false;
+  await redis.set(stopKey(userId, chatId), active.messageId, { ex: STREAM_TTL_SECONDS });
+  return true;
+}
+
+/**
+ * Stop Watcher
+ *
+ * The chat request may be served by a different instance than the stop
+ * request, and a reload must not cancel the generation, so aborting goes
+ * through a Redis flag instead of the request signal. Returns a function
+ * that ends the watch.
+ */
+export function watchStreamStop({
+  userId,
+  chatId,
+  messageId,
+  controller,
+}: {
+  userId: string;
+  chatId: string;
+  messageId: string;
+  controller: AbortController;
+}): () => void {
+  const client = redis;
+  if (!client) return () => {};
+
+  const key = stopKey(userId, chatId);
+  const timer = setInterval(async () => {
+    try {
+      const requested = await client.get<string>(key);
+      if (requested === messageId) {
+        clearInterval(timer);
+        await client.del(key);
+        controller.abort();
+      }
+    } catch (error) {
+      console.error('Error checking stream stop flag:', error);
+    }
+  }, STOP_POLL_INTERVAL_MS);
+  // Never outlive the buffered stream
+  const expiry = setTimeout(() => clearInterval(timer), STREAM_TTL_SECONDS * 1000);
+
+  return () => {
+    clearInterval(timer);
+    clearTimeout(expiry);
+  };
+}
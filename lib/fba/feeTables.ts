@@ -0,0 +1,338 @@
+/**
+ * FBA Fee Tables
+ *
+ * Versioned Amazon US fee schedules shipped with the code. Each table covers
+ * an effective period so a calculation can be reproduced for any date.
+ * Amounts are in USD, weights in pounds. Verify against Seller Central
+ * before adding a new version.
+ */
+
+export const FBA_CATEGORIES = [
+  'amazon-device-accessories',
+  'automotive',
+  'baby',
+  'beauty',
+  'books',
+  'camera',
+  'clothing',
+  'consumer-electronics',
+  'electronics-accessories',
+  'furniture',
+  'grocery',
+  'health-personal-care',
+  'home-garden',
+  'jewelry',
+  'kitchen',
+  'music-video-dvd',
+  'musical-instruments',
+  'office-products',
+  'pet-supplies',
+  'software',
+  'sports-outdoors',
+  'tools',
+  'toys-games',
+  'video-games',
+  'watches',
+  'everything-else',
+] as const;
+
+export type FbaCategory = (typeof FBA_CATEGORIES)[number];
+
+export type SizeTier =
+  | 'small-standard'
+  | 'large-standard'
+  | 'large-bulky'
+  | 'extra-large-0-50'
+  | 'extra-large-50-70'
+  | 'extra-large-70-150'
+  | 'extra-large-150-plus';
+
+/**
+ * Referral rules come in two shapes: `price-band` applies one rate to the
+ * whole price based on the band the price falls in, `marginal` applies each
+ * rate to the portion of the price inside its band.
+ */
+export interface ReferralRule {
+  type: 'price-band' | 'marginal';
+  bands: { upTo: number; rate: number }[]; // last band uses Infinity
+  minimumFee: number;
+}
+
+export interface FulfillmentRate {
+  maxLb: number;
+  fee: number;
+}
+
+// Fee for weights above `aboveLb`: base fee plus a charge per started increment
+export interface FulfillmentIncrement {
+  aboveLb: number;
+  fee: number;
+  perIncrement: number;
+  incrementLb: number;
+  maxLb: number;
+}
+
+export interface TierFulfillmentFees {
+  rates: FulfillmentRate[];
+  increment?: FulfillmentIncrement;
+}
+
+export interface FeeTable {
+  version: string;
+  marketplace: 'US';
+  currency: 'USD';
+  effectiveFrom: string; // YYYY-MM-DD, inclusive
+  effectiveTo: string | null; // YYYY-MM-DD, inclusive, null while current
+  source: string;
+  referral: Record<FbaCategory, ReferralRule>;
+  closingFee: { amount: number; categories: FbaCategory[] };
+  fulfillment: Record<SizeTier, TierFulfillmentFees>;
+  apparelFulfillment: Record<SizeTier, TierFulfillmentFees>; // clothing category
+  // Reduced fulfillment fee for standard-size items under a price threshold
+  lowPrice: { maxPrice: number; discount: number; tiers: SizeTier[] };
+}
+
+const flat = (rate: number, minimumFee = 0.3): ReferralRule => ({
+  type: 'price-band',
+  bands: [{ upTo: Infinity, rate }],
+  minimumFee,
+});
+
+const US_REFERRAL_2024: Record<FbaCategory, ReferralRule> = {
+  'amazon-device-accessories': flat(0.45),
+  automotive: flat(0.12),
+  baby: {
+    type: 'price-band',
+    bands: [
+      { upTo: 10, rate: 0.08 },
+      { upTo: Infinity, rate: 0.15 },
+    ],
+    minimumFee: 0.3,
+  },
+  beauty: {
+    type: 'price-band',
+    bands: [
+      { upTo: 10, rate: 0.08 },
+      { upTo: Infinity, rate: 0.15 },
+    ],
+    minimumFee: 0.3,
+  },
+  books: flat(0.15, 0),
+  camera: flat(0.08),
+  clothing: {
+    type: 'price-band',
+    bands: [
+      { upTo: 15, rate: 0.05 },
+      { upTo: 20, rate: 0.1 },
+      { upTo: Infinity, rate: 0.17 },
+    ],
+    minimumFee: 0.3,
+  },
+  'consumer-electronics': flat(0.08),
+  'electronics-accessories': {
+    type: 'marginal',
+    bands: [
+      { upTo: 100, rate: 0.15 },
+      { upTo: Infinity, rate: 0.08 },
+    ],
+    minimumFee: 0.3,
+  },
+  furniture: {
+    type: 'marginal',
+    bands: [
+      { upTo: 200, rate: 0.15 },
+      { upTo: Infinity, rate: 0.1 },
+    ],
+    minimumFee: 0.3,
+  },
+  grocery: {
+    type: 'price-band',
+    bands: [
+      { upTo: 15, rate: 0.08 },
+      { upTo: Infinity, rate: 0.15 },
+    ],
+    minimumFee: 0,
+  },
+  'health-personal-care': {
+    type: 'price-band',
+    bands: [
+      { upTo: 10, rate: 0.08 },
+      { upTo: Infinity, rate: 0.15 },
+    ],
+    minimumFee: 0.3,
+  },
+  'home-garden': flat(0.15),
+  jewelry: {
+    type: 'marginal',
+    bands: [
+      { upTo: 250, rate: 0.2 },
+      { upTo: Infinity, rate: 0.05 },
+    ],
+    minimumFee: 0.3,
+  },
+  kitchen: flat(0.15),
+  'music-video-dvd': flat(0.15, 0),
+  'musical-instruments': flat(0.15),
+  'office-products': flat(0.15),
+  'pet-supplies': flat(0.15),
+  software: flat(0.15, 0),
+  'sports-outdoors': flat(0.15),
+  tools: flat(0.15),
+  'toys-games': flat(0.15),
+  'video-games': flat(0.15, 0),
+  watches: {
+    type: 'marginal',
+    bands: [
+      { upTo: 1500, rate: 0.16 },
+      { upTo: Infinity, rate: 0.03 },
+    ],
+    minimumFee: 0.3,
+  },
+  'everything-else': flat(0.15),
+};
+
+// Non-apparel, non-peak rates from February 5, 2024
+const US_FULFILLMENT_2024: Record<SizeTier, TierFulfillmentFees> = {
+  'small-standard': {
+    rates: [
+      { maxLb: 2 / 16, fee: 3.06 },
+      { maxLb: 4 / 16, fee: 3.15 },
+      { maxLb: 6 / 16, fee: 3.24 },
+      { maxLb: 8 / 16, fee: 3.33 },
+      { maxLb: 10 / 16, fee: 3.43 },
+      { maxLb: 12 / 16, fee: 3.53 },
+      { maxLb: 14 / 16, fee: 3.6 },
+      { maxLb: 1, fee: 3.65 },
+    ],
+  },
+  'large-standard': {
+    rates: [
+      { maxLb: 4 / 16, fee: 3.68 },
+      { maxLb: 8 / 16, fee: 3.9 },
+      { maxLb: 12 / 16, fee: 4.15 },
+      { maxLb: 1, fee: 4.55 },
+      { maxLb: 1.25, fee: 4.99 },
+      { maxLb: 1.5, fee: 5.37 },
+      { maxLb: 1.75, fee: 5.52 },
+      { maxLb: 2, fee: 5.77 },
+      { maxLb: 2.25, fee: 5.87 },
+      { maxLb: 2.5, fee: 6.05 },
+      { maxLb: 2.75, fee: 6.21 },
+      { maxLb: 3, fee: 6.62 },
+    ],
+    increment: { aboveLb: 3, fee: 6.92, perIncrement: 0.08, incrementLb: 0.25, maxLb: 20 },
+  },
+  'large-bulky': {
+    rates: [],
+    increment: { aboveLb: 1, fee: 9.61, perIncrement: 0.38, incrementLb: 1, maxLb: 50 },
+  },
+  'extra-large-0-50': {
+    rates: [],
+    increment: { aboveLb: 1, fee: 26.33, perIncrement: 0.38, incrementLb: 1, maxLb: 50 },
+  },
+  'extra-large-50-70': {
+    rates: [],
+    increment: { aboveLb: 51, fee: 40.12, perIncrement: 0.75, incrementLb: 1, maxLb: 70 },
+  },
+  'extra-large-70-150': {
+    rates: [],
+    increment: { aboveLb: 71, fee: 54.81, perIncrement: 0.75, incrementLb: 1, maxLb: 150 },
+  },
+  'extra-large-150-plus': {
+    rates: [],
+    increment: { aboveLb: 151, fee: 194.95, perIncrement: 0.19, incrementLb: 1, maxLb: Infinity },
+  },
+};
+
+// Apparel, non-peak rates from February 5, 2024; bulky and extra-large match non-apparel
+const US_APPAREL_FULFILLMENT_2024: Record<SizeTier, TierFulfillmentFees> = {
+  ...US_FULFILLMENT_2024,
+  'small-standard': {
+    rates: [
+      { maxLb: 4 / 16, fee: 3.27 },
+      { maxLb: 8 / 16, fee: 3.42 },
+      { maxLb: 12 / 16, fee: 3.72 },
+      { maxLb: 1, fee: 3.98 },
+    ],
+  },
+  'large-standard': {
+    rates: [
+      { maxLb: 4 / 16, fee: 4.25 },
+      { maxLb: 8 / 16, fee: 4.45 },
+      { maxLb: 12 / 16, fee: 4.67 },
+      { maxLb: 1, fee: 5.12 },
+      { maxLb: 1.5, fee: 5.9 },
+      { maxLb: 2, fee: 6.14 },
+      { maxLb: 2.5, fee: 6.6 },
+      { maxLb: 3, fee: 6.81 },
+    ],
+    increment: { aboveLb: 3, fee: 6.98, perIncrement: 0.16, incrementLb: 0.5, maxLb: 20 },
+  },
+};
+
+const US_CLOSING_FEE = {
+  amount: 1.8,
+  categories: ['books', 'music-video-dvd', 'software', 'video-games'] as FbaCategory[],
+};
+
+const US_LOW_PRICE = {
+  maxPrice: 10,
+  discount: 0.77,
+  tiers: ['small-standard', 'large-standard'] as SizeTier[],
+};
+
+const US_SOURCE =
+  'Seller Central help: Selling on Amazon fee schedule (G201411300), FBA fulfillment fees (GPDC3KPYAGDTVDJP)';
+
+// Oldest first, periods must not overlap
+export const FEE_TABLES: FeeTable[] = [
+  {
+    version: 'us-2024',
+    marketplace: 'US',
+    currency: 'USD',
+    effectiveFrom: '2024-02-05',
+    effectiveTo: '2025-01-14',
+    source: US_SOURCE,
+    referral: US_REFERRAL_2024,
+    closingFee: US_CLOSING_FEE,
+    fulfillment: US_FULFILLMENT_2024,
+    apparelFulfillment: US_APPAREL_FULFILLMENT_2024,
+    lowPrice: US_LOW_PRICE,
+  },
+  {
+    // Amazon announced no US referral or fulfillment fee increases for 2025
+    version: 'us-2025',
+    marketplace: 'US',
+    currency: 'USD',
+    effectiveFrom: '2025-01-15',
+    effectiveTo: null,
+    source: US_SOURCE,
+    referral: US_REFERRAL_2024,
+    closingFee: US_CLOSING_FEE,
+    fulfillment: US_FULFILLMENT_2024,
+    apparelFulfillment: US_APPAREL_FULFILLMENT_2024,
+    lowPrice: US_LOW_PRICE,
+  },
+];
+
+// Last date the newest table is known to apply; later dates still use it, with a warning
+export const FEE_TABLES_VERIFIED_THROUGH = '2026-01-14';
+
+// Holiday peak period (MM-DD, inclusive), when Amazon adds a fulfillment surcharge
+export const PEAK_SEASON = { from: '10-15', to: '01-14' };
+
+export class NoFeeTableError extends Error {
+  constructor(public readonly date: string) {
+    super(`No fee table for ${date}: the oldest table starts on ${FEE_TABLES[0].effectiveFrom}`);
+    this.name = 'NoFeeTableError';
+  }
+}
+
+// Table in effect on `date` (YYYY-MM-DD); older dates throw rather than quote newer fees
+export function getFeeTable(date: string = new Date().toISOString().slice(0, 10)): FeeTable {
+  const table = FEE_TABLES.find(
+    (t) => t.effectiveFrom <= date && (t.effectiveTo === null || date <= t.effectiveTo),
+  );
+  if (!table) throw new NoFeeTableError(date);
+  return table;
+}
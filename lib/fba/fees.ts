@@ -0,0 +1,128 @@
+import {
+  FEE_TABLES_VERIFIED_THROUGH,
+  getFeeTable,
+  PEAK_SEASON,
+  type FbaCategory,
+  type ReferralRule,
+  type SizeTier,
+  type TierFulfillmentFees,
+} from '@/lib/fba/feeTables';
+import { classifySizeTier, type Measurements } from '@/lib/fba/sizeTier';
+
+export interface FbaFeeInput extends Measurements {
+  price: number;
+  category: FbaCategory;
+  date?: string; // YYYY-MM-DD, defaults to today
+}
+
+export interface FbaFeeBreakdown {
+  feeTable: { version: string; effectiveFrom: string; effectiveTo: string | null; source: string };
+  currency: string;
+  price: number;
+  category: FbaCategory;
+  sizeTier: SizeTier;
+  sizeTierRule: string;
+  fulfillmentRates: 'apparel' | 'non-apparel';
+  shippingWeightLb: number;
+  dimensionalWeightLb: number;
+  referralFee: number;
+  fulfillmentFee: number;
+  closingFee: number;
+  totalFees: number;
+  netProceeds: number;
+  assumptions: string[]; // what the fees leave out, to be passed on with them
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function referralFee(rule: ReferralRule, price: number): number {
+  let fee = 0;
+  if (rule.type === 'price-band') {
+    const band = rule.bands.find((b) => price <= b.upTo) ?? rule.bands[rule.bands.length - 1];
+    fee = price * band.rate;
+  } else {
+    let lower = 0;
+    for (const band of rule.bands) {
+      if (price <= lower) break;
+      fee += (Math.min(price, band.upTo) - lower) * band.rate;
+      lower = band.upTo;
+    }
+  }
+  return Math.max(fee, rule.minimumFee);
+}
+
+function fulfillmentFee(fees: TierFulfillmentFees, shippingWeightLb: number): number {
+  const rate = fees.rates.find((r) => shippingWeightLb <= r.maxLb);
+  if (rate) return rate.fee;
+  const increment = fees.increment;
+  if (!increment || shippingWeightLb > increment.maxLb) {
+    throw new Error(`No fulfillment rate for ${shippingWeightLb.toFixed(2)} lb`);
+  }
+  const steps = Math.max(0, Math.ceil((shippingWeightLb - increment.aboveLb) / increment.incrementLb));
+  return increment.fee + steps * increment.perIncrement;
+}
+
+/**
+ * FBA Fee Calculation
+ *
+ * Referral fee, fulfillment fee and closing fee for one unit, using the fee
+ * table in effect on the given date.
+ */
+export function calculateFbaFees(input: FbaFeeInput): FbaFeeBreakdown {
+  const date = input.date ?? new Date().toISOString().slice(0, 10);
+  const table = getFeeTable(date);
+  const apparel = input.category === 'clothing';
+  const fulfillmentFees = apparel ? table.apparelFulfillment : table.fulfillment;
+  const sizeTier = classifySizeTier(input, 'US');
+  const tier = sizeTier.tier as SizeTier;
+  if (!(tier in fulfillmentFees)) {
+    throw new Error(`No fulfillment fees for size tier ${tier}`);
+  }
+  const { shippingWeight: shippingWeightLb, dimensionalWeight: dimensionalWeightLb } = sizeTier;
+
+  const referral = referralFee(table.referral[input.category], input.price);
+  let fulfillment = fulfillmentFee(fulfillmentFees[tier], shippingWeightLb);
+  if (input.price < table.lowPrice.maxPrice && table.lowPrice.tiers.includes(tier)) {
+    fulfillment -= table.lowPrice.discount;
+  }
+  const closing = table.closingFee.categories.includes(input.category)
+    ? table.closingFee.amount
+    : 0;
+
+  const assumptions = [
+    'Non-peak fulfillment rates: the holiday peak surcharge (October 15 to January 14) is not included.',
+  ];
+  const monthDay = date.slice(5);
+  if (monthDay >= PEAK_SEASON.from || monthDay <= PEAK_SEASON.to) {
+    assumptions.push(`${date} falls in the peak period, so the actual fulfillment fee is higher.`);
+  }
+  if (date > FEE_TABLES_VERIFIED_THROUGH) {
+    assumptions.push(
+      `Fee schedules are verified through ${FEE_TABLES_VERIFIED_THROUGH}; fees for ${date} may have changed since.`,
+    );
+  }
+
+  const totalFees = roundCents(referral) + roundCents(fulfillment) + roundCents(closing);
+  return {
+    feeTable: {
+      version: table.version,
+      effectiveFrom: table.effectiveFrom,
+      effectiveTo: table.effectiveTo,
+      source: table.source,
+    },
+    currency: table.currency,
+    price: input.price,
+    category: input.category,
+    sizeTier: tier,
+    sizeTierRule: sizeTier.rule,
+    fulfillmentRates: apparel ? 'apparel' : 'non-apparel',
+    shippingWeightLb: roundCents(shippingWeightLb),
+    dimensionalWeightLb: roundCents(dimensionalWeightLb),
+    referralFee: roundCents(referral),
+    fulfillmentFee: roundCents(fulfillment),
+    closingFee: roundCents(closing),
+    totalFees: roundCents(totalFees),
+    netProceeds: roundCents(input.price - totalFees),
+    assumptions,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Profit and ROI
+ *
+ * Per-unit economics from landed cost, Amazon fees and ad spend. The referral
+ * fee is a share of the price, so it is recomputed at every price point of
+ * the sensitivity table, while the other fees stay fixed.
+ */
+
+export interface ProfitInput {
+  salePrice: number;
+  unitCost: number;
+  freight?: number; // per unit
+  duty?: number; // per unit
+  prep?: number; // per unit
+  ppcPerUnit?: number; // ad spend per unit sold
+  fbaFees: number; // fulfillment and other fixed Amazon fees, excluding referral
+  referralFeePercent?: number; // defaults to 15
+  pricePoints?: number[]; // defaults to -20% .. +20% around the sale price
+}
+
+export interface ProfitAtPrice {
+  price: number;
+  referralFee: number;
+  profit: number;
+  margin: number; // percent of price
+  roi: number; // percent of landed cost
+  breakevenAcos: number; // percent of price available for ads before a loss
+}
+
+export interface ProfitResult extends ProfitAtPrice {
+  landedCost: number;
+  amazonFees: number;
+  ppcPerUnit: number;
+  sensitivity: ProfitAtPrice[];
+}
+
+const DEFAULT_REFERRAL_PERCENT = 15;
+const DEFAULT_PRICE_STEPS = [-0.2, -0.1, 0, 0.1, 0.2];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const percent = (part: number, whole: number) => (whole > 0 ? round((part / whole) * 100) : 0);
+
+function atPrice(
+  price: number,
+  landedCost: number,
+  fbaFees: number,
+  ppcPerUnit: number,
+  referralPercent: number,
+): ProfitAtPrice {
+  const referralFee = (price * referralPercent) / 100;
+  const beforeAds = price - landedCost - fbaFees - referralFee;
+  const profit = beforeAds - ppcPerUnit;
+  return {
+    price: round(price),
+    referralFee: round(referralFee),
+    profit: round(profit),
+    margin: percent(profit, price),
+    roi: percent(profit, landedCost),
+    breakevenAcos: percent(Math.max(0, beforeAds), price),
+  };
+}
+
+export function calculateProfit(input: ProfitInput): ProfitResult {
+  const landedCost =
+    input.unitCost + (input.freight ?? 0) + (input.duty ?? 0) + (input.prep ?? 0);
+  const ppcPerUnit = input.ppcPerUnit ?? 0;
+  const referralPercent = input.referralFeePercent ?? DEFAULT_REFERRAL_PERCENT;
+
+  const prices = input.pricePoints?.length
+    ? input.pricePoints
+    : DEFAULT_PRICE_STEPS.map((step) => input.salePrice * (1 + step));
+  const sensitivity = [...new Set(prices.map(round))]
+    .sort((a, b) => a - b)
+    .map((price) => atPrice(price, landedCost, input.fbaFees, ppcPerUnit, referralPercent));
+
+  const base = atPrice(input.salePrice, landedCost, input.fbaFees, ppcPerUnit, referralPercent);
+  return {
+    ...base,
+    landedCost: round(landedCost),
+    amazonFees: round(base.referralFee + input.fbaFees),
+    ppcPerUnit: round(ppcPerUnit),
+    sensitivity,
+  };
+}
@@ -0,0 +1,123 @@
+import {
+  SIZE_TIER_RULE_SETS,
+  type Marketplace,
+  type SizeTierRule,
+  type SizeTierRuleSet,
+} from '@/lib/fba/sizeTierRules';
+
+/**
+ * Size Tier Classification
+ *
+ * Normalizes measurements to the marketplace's units, computes dimensional
+ * and shipping weight, and finds the first tier rule the item fits. The
+ * result names the rule that placed it there.
+ */
+
+export interface Dimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+export type UnitSystem = 'imperial' | 'metric'; // inches and pounds, or centimeters and kilograms
+
+export interface Measurements {
+  dimensions: Dimensions;
+  weight: number;
+  units: UnitSystem;
+}
+
+export interface SizeTierResult {
+  marketplace: Marketplace;
+  ruleSetVersion: string;
+  tier: string;
+  label: string;
+  rule: string; // the thresholds that placed the item in this tier
+  lengthUnit: 'in' | 'cm';
+  weightUnit: 'lb' | 'kg';
+  sides: [number, number, number]; // longest, median, shortest
+  lengthPlusGirth: number;
+  unitWeight: number;
+  dimensionalWeight: number;
+  shippingWeight: number;
+}
+
+const CM_PER_INCH = 2.54;
+const KG_PER_LB = 0.45359237;
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+// Convert to the rule set's units and sort sides longest first
+function normalize({ dimensions, weight, units }: Measurements, ruleSet: SizeTierRuleSet) {
+  const metric = units === 'metric';
+  const lengthFactor =
+    ruleSet.lengthUnit === 'cm' ? (metric ? 1 : CM_PER_INCH) : metric ? 1 / CM_PER_INCH : 1;
+  const weightFactor =
+    ruleSet.weightUnit === 'kg' ? (metric ? 1 : KG_PER_LB) : metric ? 1 / KG_PER_LB : 1;
+  const sides = [dimensions.length, dimensions.width, dimensions.height]
+    .map((side) => side * lengthFactor)
+    .sort((a, b) => b - a) as [number, number, number];
+  return { sides, unitWeight: weight * weightFactor };
+}
+
+function dimensionalWeight(
+  [longest, median, shortest]: [number, number, number],
+  ruleSet: SizeTierRuleSet,
+  rule: SizeTierRule,
+): number {
+  const floor = rule.minSideForDimWeight ?? 0;
+  return (longest * Math.max(median, floor) * Math.max(shortest, floor)) / ruleSet.dimDivisor;
+}
+
+function describeRule(rule: SizeTierRule, ruleSet: SizeTierRuleSet): string {
+  const { lengthUnit: l, weightUnit: w } = ruleSet;
+  const checks: string[] = [];
+  if (rule.maxSides) {
+    const [longest, median, shortest] = rule.maxSides;
+    checks.push(`longest side ≤ ${longest} ${l}, median ≤ ${median} ${l}, shortest ≤ ${shortest} ${l}`);
+  }
+  if (rule.maxLengthPlusGirth) checks.push(`length + girth ≤ ${rule.maxLengthPlusGirth} ${l}`);
+  if (rule.maxWeight !== undefined) {
+    checks.push(`${rule.weightBasis === 'unit' ? 'unit' : 'shipping'} weight ≤ ${rule.maxWeight} ${w}`);
+  }
+  return `${rule.label}: ${checks.length ? checks.join(', ') : 'exceeds all smaller tiers'}`;
+}
+
+export function classifySizeTier(
+  measurements: Measurements,
+  marketplace: Marketplace = 'US',
+): SizeTierResult {
+  const ruleSet = SIZE_TIER_RULE_SETS[marketplace];
+  const { sides, unitWeight } = normalize(measurements, ruleSet);
+  const [longest, median, shortest] = sides;
+  const lengthPlusGirth = longest + 2 * (median + shortest);
+
+  for (const rule of ruleSet.rules) {
+    const dimWeight = dimensionalWeight(sides, ruleSet, rule);
+    const shippingWeight = rule.weightBasis === 'unit' ? unitWeight : Math.max(unitWeight, dimWeight);
+    const maxSides = rule.maxSides;
+    const fitsSides = !maxSides || sides.every((side, i) => side <= maxSides[i]);
+    const fitsGirth = !rule.maxLengthPlusGirth || lengthPlusGirth <= rule.maxLengthPlusGirth;
+    const fitsWeight = rule.maxWeight === undefined || shippingWeight <= rule.maxWeight;
+
+    if (fitsSides && fitsGirth && fitsWeight) {
+      return {
+        marketplace,
+        ruleSetVersion: ruleSet.version,
+        tier: rule.tier,
+        label: rule.label,
+        rule: describeRule(rule, ruleSet),
+        lengthUnit: ruleSet.lengthUnit,
+        weightUnit: ruleSet.weightUnit,
+        sides: sides.map((side) => round(side)) as [number, number, number],
+        lengthPlusGirth: round(lengthPlusGirth),
+        unitWeight: round(unitWeight, 3),
+        dimensionalWeight: round(dimWeight, 3),
+        shippingWeight: round(shippingWeight, 3),
+      };
+    }
+  }
+
+  // Every rule set ends with an unbounded tier, so this only guards bad data
+  throw new Error(`No ${marketplace} size tier matches these measurements`);
+}
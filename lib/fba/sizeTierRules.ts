@@ -0,0 +1,82 @@
+/**
+ * Size Tier Rule Sets
+ *
+ * Marketplace-specific thresholds, checked in order: the first rule an item
+ * fits decides its tier. Sides are compared longest, median, shortest, in the
+ * rule set's own units. Verify against Seller Central before changing.
+ */
+
+export type Marketplace = 'US' | 'UK' | 'EU';
+
+export interface SizeTierRule {
+  tier: string;
+  label: string;
+  maxSides?: [number, number, number]; // longest, median, shortest
+  maxLengthPlusGirth?: number;
+  maxWeight?: number;
+  // Envelope-like tiers are billed on unit weight, the rest on the greater
+  // of unit and dimensional weight
+  weightBasis: 'unit' | 'shipping';
+  minSideForDimWeight?: number; // width and height floor for dimensional weight
+}
+
+export interface SizeTierRuleSet {
+  marketplace: Marketplace;
+  version: string;
+  lengthUnit: 'in' | 'cm';
+  weightUnit: 'lb' | 'kg';
+  dimDivisor: number; // volume / divisor = dimensional weight
+  rules: SizeTierRule[];
+}
+
+const US_RULES: SizeTierRuleSet = {
+  marketplace: 'US',
+  version: 'us-2024',
+  lengthUnit: 'in',
+  weightUnit: 'lb',
+  dimDivisor: 139,
+  rules: [
+    { tier: 'small-standard', label: 'Small standard', maxSides: [15, 12, 0.75], maxWeight: 1, weightBasis: 'unit' },
+    { tier: 'large-standard', label: 'Large standard', maxSides: [18, 14, 8], maxWeight: 20, weightBasis: 'shipping' },
+    {
+      tier: 'large-bulky',
+      label: 'Large bulky',
+      maxSides: [59, 33, 33],
+      maxLengthPlusGirth: 130,
+      maxWeight: 50,
+      weightBasis: 'shipping',
+      minSideForDimWeight: 2,
+    },
+    { tier: 'extra-large-0-50', label: 'Extra-large 0 to 50 lb', maxWeight: 50, weightBasis: 'shipping', minSideForDimWeight: 2 },
+    { tier: 'extra-large-50-70', label: 'Extra-large 50+ to 70 lb', maxWeight: 70, weightBasis: 'shipping', minSideForDimWeight: 2 },
+    { tier: 'extra-large-70-150', label: 'Extra-large 70+ to 150 lb', maxWeight: 150, weightBasis: 'shipping', minSideForDimWeight: 2 },
+    { tier: 'extra-large-150-plus', label: 'Extra-large 150+ lb', weightBasis: 'shipping', minSideForDimWeight: 2 },
+  ],
+};
+
+// Pan-European tiers, used by Amazon.co.uk and the EU marketplaces
+const EU_RULES: SizeTierRuleSet = {
+  marketplace: 'EU',
+  version: 'eu-2024',
+  lengthUnit: 'cm',
+  weightUnit: 'kg',
+  dimDivisor: 5000,
+  rules: [
+    { tier: 'small-envelope', label: 'Small envelope', maxSides: [20, 15, 1], maxWeight: 0.08, weightBasis: 'unit' },
+    { tier: 'standard-envelope', label: 'Standard envelope', maxSides: [33, 23, 2.5], maxWeight: 0.46, weightBasis: 'unit' },
+    { tier: 'large-envelope', label: 'Large envelope', maxSides: [33, 23, 4], maxWeight: 0.96, weightBasis: 'unit' },
+    { tier: 'extra-large-envelope', label: 'Extra-large envelope', maxSides: [33, 23, 6], maxWeight: 0.96, weightBasis: 'unit' },
+    { tier: 'small-parcel', label: 'Small parcel', maxSides: [35, 25, 12], maxWeight: 3.9, weightBasis: 'shipping' },
+    { tier: 'standard-parcel', label: 'Standard parcel', maxSides: [45, 34, 26], maxWeight: 11.9, weightBasis: 'shipping' },
+    { tier: 'small-oversize', label: 'Small oversize', maxSides: [61, 46, 46], maxWeight: 25.82, weightBasis: 'shipping' },
+    { tier: 'standard-oversize', label: 'Standard oversize', maxSides: [101, 60, 60], maxWeight: 29.76, weightBasis: 'shipping' },
+    { tier: 'large-oversize', label: 'Large oversize', maxSides: [120, 60, 60], maxWeight: 29.76, weightBasis: 'shipping' },
+    { tier: 'special-oversize', label: 'Special oversize', weightBasis: 'shipping' },
+  ],
+};
+
+export const SIZE_TIER_RULE_SETS: Record<Marketplace, SizeTierRuleSet> = {
+  US: US_RULES,
+  UK: { ...EU_RULES, marketplace: 'UK', version: 'uk-2024' },
+  EU: EU_RULES,
+};
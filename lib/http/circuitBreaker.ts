@@ -0,0 +1,124 @@
+/**
+ * Circuit Breaker
+ *
+ * One breaker per external provider, kept in memory per server instance.
+ * After FAILURE_THRESHOLD failed calls in a row the breaker opens and calls
+ * fail immediately for OPEN_MS. Then a single trial call is let through
+ * (half-open): success closes the breaker, failure opens it again.
+ */
+
+const FAILURE_THRESHOLD = Number(process.env.CIRCUIT_FAILURE_THRESHOLD) || 5;
+const OPEN_MS = Number(process.env.CIRCUIT_OPEN_MS) || 30_000;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStatus {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null; // when an open breaker lets a trial call through
+  lastError: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly provider: string,
+    public readonly retryAt: number,
+  ) {
+    super(`${provider} is temporarily unavailable after repeated failures`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const circuits = new Map<string, Circuit>();
+
+function circuitFor(provider: string): Circuit {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = {
+      state: 'closed',
+      consecutiveFailures: 0,
+      openedAt: null,
+      trialInFlight: false,
+      lastError: null,
+      lastFailureAt: null,
+      lastSuccessAt: null,
+    };
+    circuits.set(provider, circuit);
+  }
+  return circuit;
+}
+
+// Throws CircuitOpenError when the provider should not be called right now
+export function acquireCircuit(provider: string): void {
+  const circuit = circuitFor(provider);
+  if (circuit.state === 'open' && Date.now() - (circuit.openedAt ?? 0) >= OPEN_MS) {
+    circuit.state = 'half-open';
+    circuit.trialInFlight = false;
+  }
+  if (circuit.state === 'open' || (circuit.state === 'half-open' && circuit.trialInFlight)) {
+    throw new CircuitOpenError(provider, (circuit.openedAt ?? Date.now()) + OPEN_MS);
+  }
+  if (circuit.state === 'half-open') circuit.trialInFlight = true;
+}
+
+export function recordSuccess(provider: string): void {
+  const circuit = circuitFor(provider);
+  circuit.state = 'closed';
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.trialInFlight = false;
+  circuit.lastSuccessAt = Date.now();
+}
+
+export function recordFailure(provider: string, error: string): void {
+  const circuit = circuitFor(provider);
+  circuit.consecutiveFailures++;
+  circuit.lastError = error;
+  circuit.lastFailureAt = Date.now();
+  circuit.trialInFlight = false;
+  if (circuit.state === 'half-open' || circuit.consecutiveFailures >= FAILURE_THRESHOLD) {
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+  }
+}
+
+// A call that ended without a verdict, e.g. aborted by the caller
+export function releaseCircuit(provider: string): void {
+  circuitFor(provider).trialInFlight = false;
+}
+
+const iso = (time: number | null) => (time === null ? null : new Date(time).toISOString());
+
+export function getCircuitStatuses(): CircuitStatus[] {
+  return [...circuits.entries()]
+    .map(([provider, circuit]) => {
+      const open = circuit.state === 'open';
+      return {
+        provider,
+        // An open breaker past its wait shows as half-open until the next call
+        state:
+          open && Date.now() - (circuit.openedAt ?? 0) >= OPEN_MS ? 'half-open' : circuit.state,
+        consecutiveFailures: circuit.consecutiveFailures,
+        openedAt: iso(circuit.openedAt),
+        retryAt: open ? iso((circuit.openedAt ?? 0) + OPEN_MS) : null,
+        lastError: circuit.lastError,
+        lastFailureAt: iso(circuit.lastFailureAt),
+        lastSuccessAt: iso(circuit.lastSuccessAt),
+      } satisfies CircuitStatus;
+    })
+    .sort((a, b) => a.provider.localeCompare(b.provider));
+}
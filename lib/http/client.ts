@@ -0,0 +1,180 @@
+import type { Dispatcher } from 'undici';
+import {
+  acquireCircuit,
+  recordFailure,
+  recordSuccess,
+  releaseCircuit,
+} from '@/lib/http/circuitBreaker';
+
+/**
+ * HTTP Client for Tools
+ *
+ * Shared fetch wrapper for external APIs. Every attempt has its own
+ * AbortController, so a timeout cancels the request instead of leaving it
+ * running. Timeouts, network errors, 408, 429 and 5xx responses are retried
+ * with jittered exponential backoff, waiting at least as long as a
+ * Retry-After header asks. Calls that name a provider go through its
+ * circuit breaker.
+ */
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_RETRIES = 2;
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 4000;
+// A provider asking for a longer pause fails now instead of stalling the answer
+const MAX_RETRY_AFTER_MS = 10_000;
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+export interface HttpOptions extends Omit<RequestInit, 'signal'> {
+  provider?: string; // circuit breaker key, omitted for arbitrary URLs such as pages to read
+  timeoutMs?: number; // per attempt, including reading the body
+  retries?: number;
+  signal?: AbortSignal; // caller abort, e.g. the user stopping the response
+  dispatcher?: Dispatcher; // undici connection pool, e.g. one pinned to checked addresses
+}
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly retryAfterMs: number | null = null,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('retry-after');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Full jitter: a random wait below an exponentially growing cap
+const backoffMs = (attempt: number) =>
+  Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+
+const isRetryable = (error: unknown) =>
+  error instanceof HttpError
+    ? RETRYABLE_STATUS.has(error.status)
+    : // fetch reports network failures as TypeError
+      error instanceof TimeoutError || error instanceof TypeError;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function attempt<T>(
+  url: string,
+  init: RequestInit,
+  { label, timeoutMs, signal }: { label: string; timeoutMs: number; signal?: AbortSignal },
+  read: (response: Response) => Promise<T>,
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new TimeoutError(`${label} request timed out after ${timeoutMs} ms`)),
+    timeoutMs,
+  );
+  const forwardAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    // With redirect: 'manual' the caller follows redirects itself, so they reach `read`
+    const redirect = init.redirect === 'manual' && response.status >= 300 && response.status < 400;
+    if (!response.ok && !redirect) {
+      await response.body?.cancel().catch(() => {});
+      throw new HttpError(
+        response.status,
+        `${label} API Error: ${response.status}`,
+        retryAfterMs(response),
+      );
+    }
+    return await read(response);
+  } catch (error) {
+    const reason = controller.signal.reason;
+    throw controller.signal.aborted && reason instanceof TimeoutError ? reason : error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+}
+
+export async function request<T>(
+  url: string,
+  options: HttpOptions,
+  read: (response: Response) => Promise<T>,
+): Promise<T> {
+  const {
+    provider,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    signal,
+    ...init
+  } = options;
+  const label = provider ?? new URL(url).host;
+  if (provider) acquireCircuit(provider);
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    try {
+      const result = await attempt(url, init, { label, timeoutMs, signal }, read);
+      if (provider) recordSuccess(provider);
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        if (provider) releaseCircuit(provider);
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      const retryable = isRetryable(error);
+      const wait = Math.max(
+        backoffMs(attemptIndex),
+        error instanceof HttpError ? (error.retryAfterMs ?? 0) : 0,
+      );
+
+      if (retryable && attemptIndex < retries && wait <= MAX_RETRY_AFTER_MS) {
+        console.warn(`${message}, retrying in ${Math.round(wait)} ms`);
+        try {
+          await sleep(wait, signal);
+        } catch (abortReason) {
+          if (provider) releaseCircuit(provider);
+          throw abortReason;
+        }
+        continue;
+      }
+
+      // A 4xx answer means the provider is up, the request itself was wrong
+      if (provider) {
+        if (error instanceof HttpError && !retryable) recordSuccess(provider);
+        else recordFailure(provider, message);
+      }
+      throw error;
+    }
+  }
+}
+
+export const fetchJson = (url: string, options: HttpOptions = {}) =>
+  request(url, options, (response) => response.json());
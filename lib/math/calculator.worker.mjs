@@ -0,0 +1,167 @@
+// Calculator worker: evaluates expressions with a restricted mathjs instance.
+// Runs in a worker thread with memory limits, so the parent can terminate it
+// when an expression runs too long or allocates too much.
+import { parentPort } from 'node:worker_threads';
+import { create, all } from 'mathjs';
+import { createSymbolic, UnsupportedError } from './symbolic.mjs';
+
+const MAX_NODES = 500;
+const MAX_RESULT_CHARS = 10_000;
+
+const math = create(all, {
+  number: 'number',
+  precision: 14,
+});
+
+// Keep private references before the public names are replaced
+const parse = math.parse;
+const format = math.format;
+const symbolicFunctions = {
+  simplify: math.simplify,
+  simplifyCore: math.simplifyCore,
+  simplifyConstant: math.simplifyConstant,
+  derivative: math.derivative,
+  rationalize: math.rationalize,
+  polynomialRoot: math.polynomialRoot,
+  format,
+};
+
+// Functions that reach outside the expression: they load or redefine
+// functions, evaluate nested strings or change configuration
+const DISABLED_FUNCTIONS = [
+  'import',
+  'createUnit',
+  'evaluate',
+  'parse',
+  'compile',
+  'parser',
+  'resolve',
+  'simplify',
+  'simplifyConstant',
+  'simplifyCore',
+  'derivative',
+  'rationalize',
+  'reviver',
+  'replacer',
+  'config',
+  'chain',
+  'help',
+];
+
+class DisabledFunctionError extends Error {}
+class TooComplexError extends Error {}
+
+math.import(
+  Object.fromEntries(
+    DISABLED_FUNCTIONS.map((name) => [
+      name,
+      () => {
+        throw new DisabledFunctionError(`Function ${name} is disabled`);
+      },
+    ]),
+  ),
+  { override: true },
+);
+
+function checkSize(node) {
+  let count = 0;
+  node.traverse(() => {
+    count++;
+  });
+  if (count > MAX_NODES) {
+    throw new TooComplexError(`Expression has ${count} nodes, the limit is ${MAX_NODES}`);
+  }
+  return node;
+}
+
+// Symbolic operations parse through the same size check
+const symbolic = createSymbolic({
+  ...symbolicFunctions,
+  parse: (expression) => checkSize(parse(expression)),
+});
+
+const tooLarge = (value) =>
+  JSON.stringify(value).length > MAX_RESULT_CHARS && {
+    ok: false,
+    code: 'result_too_large',
+    message: `Result exceeds ${MAX_RESULT_CHARS} characters`,
+  };
+
+function runSymbolic(request) {
+  try {
+    const result = symbolic.run(request);
+    return tooLarge(result) || { ok: true, result };
+  } catch (error) {
+    const code =
+      error instanceof TooComplexError
+        ? 'too_complex'
+        : error instanceof UnsupportedError
+          ? 'unsupported'
+          : error instanceof DisabledFunctionError
+            ? 'disabled_function'
+            : error instanceof SyntaxError
+              ? 'syntax'
+              : 'evaluation';
+    return { ok: false, code, message: error.message || String(error) };
+  }
+}
+
+function evaluate(expression) {
+  let node;
+  try {
+    node = parse(expression);
+  } catch (error) {
+    return { ok: false, code: 'syntax', message: error.message };
+  }
+
+  try {
+    checkSize(node);
+  } catch (error) {
+    return { ok: false, code: 'too_complex', message: error.message };
+  }
+
+  let value;
+  try {
+    value = node.compile().evaluate({});
+  } catch (error) {
+    if (error instanceof DisabledFunctionError) {
+      return { ok: false, code: 'disabled_function', message: error.message };
+    }
+    return { ok: false, code: 'evaluation', message: error.message || String(error) };
+  }
+
+  // Multiple statements evaluate to a ResultSet, the last entry is the answer
+  if (value && value.isResultSet) value = value.entries[value.entries.length - 1];
+  if (typeof value === 'function') {
+    return { ok: false, code: 'evaluation', message: 'Expression does not produce a value' };
+  }
+
+  // Round away float noise (0.1 + 0.2) the same way formatted results are
+  const result =
+    typeof value === 'number' && Number.isFinite(value)
+      ? Number(format(value, { precision: 14 }))
+      : typeof value === 'boolean'
+        ? value
+        : format(value, { precision: 14 });
+  return tooLarge(result) || { ok: true, result: { value: result, latex: resultTex(node, result) } };
+}
+
+// "expression = result" for typesetting, just the result for multi-statement input
+function resultTex(node, result) {
+  let valueTex;
+  try {
+    valueTex = parse(String(result)).toTex();
+  } catch {
+    valueTex = `\\text{${String(result).replace(/[{}\\]/g, '')}}`;
+  }
+  return node.isBlockNode ? valueTex : `${node.toTex()} = ${valueTex}`;
+}
+
+parentPort.on('message', ({ id, ...request }) => {
+  const reply =
+    request.operation === 'evaluate' ? evaluate(request.expression) : runSymbolic(request);
+  parentPort.postMessage({ id, ...reply });
+});
+
+// mathjs is loaded, evaluation time limits apply from here on
+parentPort.postMessage({ ready: true });
@@ -0,0 +1,76 @@
+// Test file to verify the calculator sandbox rejects hostile expressions
+import { CalculatorError, evaluateExpression, type CalculatorErrorCode } from '@/lib/math/sandbox';
+
+const hostileExpressions: [string, CalculatorErrorCode][] = [
+  // Functions that escape the expression or change the instance
+  ['import({ evil: 1 }, { override: true })', 'disabled_function'],
+  ['createUnit("foo")', 'disabled_function'],
+  ['evaluate("2 + 2")', 'disabled_function'],
+  ['parse("2 + 2")', 'disabled_function'],
+  ['compile("2 + 2").evaluate()', 'disabled_function'],
+  ['simplify("x + x")', 'disabled_function'],
+  ['derivative("x^2", "x")', 'disabled_function'],
+  ['config({ number: "BigNumber" })', 'disabled_function'],
+  ['f = evaluate; f("1")', 'disabled_function'],
+  // Property access to the JavaScript runtime
+  ['cos["constructor"]("return process")', 'evaluation'],
+  ['f = sqrt["constructor"]; f("return this")', 'evaluation'],
+  ['x = [1, 2]; x.constructor', 'evaluation'],
+  ['eval("1")', 'evaluation'],
+  // Runaway time and memory
+  ['sum(range(1, 1e9))', 'resource_limit'],
+  ['f(x) = x > 0 ? f(x - 1) + 1 : 0; f(1e7)', 'evaluation'],
+  ['zeros(20000, 20000)', 'resource_limit'],
+  ['A = ones(2000, 2000); det(A * A * A * A)', 'timeout'],
+  // Input and output size
+  ['1+'.repeat(300) + '1', 'too_complex'],
+  ['1'.repeat(2000), 'too_long'],
+  ['string(ones(1, 5000))', 'result_too_large'],
+  ['2 +* 3', 'syntax'],
+];
+
+const validExpressions: [string, number | string][] = [
+  ['(24.99 - 8.5) * 120', 1978.8],
+  ['sqrt(16)', 4],
+  ['log(100, 10)', 2],
+  ['5 kg to lb', '11.023113109244 lb'],
+];
+
+// Time and memory cases may surface as either limit depending on the machine
+const LIMIT_CODES: CalculatorErrorCode[] = ['timeout', 'resource_limit'];
+
+export async function testCalculatorSandbox() {
+  let failures = 0;
+
+  for (const [expression, expected] of hostileExpressions) {
+    try {
+      const { value } = await evaluateExpression(expression);
+      failures++;
+      console.error(`FAIL ${expression.slice(0, 60)}: evaluated to ${String(value).slice(0, 60)}`);
+    } catch (error) {
+      const code = error instanceof CalculatorError ? error.code : 'untyped';
+      const ok =
+        code === expected ||
+        (LIMIT_CODES.includes(expected) && LIMIT_CODES.includes(code as CalculatorErrorCode));
+      if (!ok) failures++;
+      console.log(`${ok ? 'ok  ' : 'FAIL'} ${expression.slice(0, 60)} -> ${code}`);
+    }
+  }
+
+  for (const [expression, expected] of validExpressions) {
+    try {
+      const { value } = await evaluateExpression(expression);
+      const ok = value === expected;
+      if (!ok) failures++;
+      console.log(`${ok ? 'ok  ' : 'FAIL'} ${expression} = ${value}`);
+    } catch (error) {
+      failures++;
+      console.error(`FAIL ${expression}:`, error);
+    }
+  }
+
+  console.log(failures === 0 ? 'All sandbox checks passed' : `${failures} sandbox checks failed`);
+  return { failures };
+}
+
+// Expected output: one "ok" line per expression, then "All sandbox checks passed"
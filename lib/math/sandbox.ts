@@ -0,0 +1,200 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+
+/**
+ * Calculator Sandbox
+ *
+ * Model-supplied expressions run in a worker thread with a restricted mathjs
+ * instance (see calculator.worker.mjs). The worker has a memory cap and is
+ * terminated when an evaluation runs past the time limit, so a runaway
+ * expression cannot block the route. One worker is reused while it behaves.
+ * Symbolic operations (symbolic.mjs) run in the same worker with a longer
+ * time limit.
+ */
+
+export type CalculatorErrorCode =
+  | 'too_long'
+  | 'syntax'
+  | 'disabled_function'
+  | 'too_complex'
+  | 'evaluation'
+  | 'result_too_large'
+  | 'unsupported'
+  | 'timeout'
+  | 'resource_limit';
+
+export const SYMBOLIC_OPERATIONS = [
+  'derivative',
+  'simplify',
+  'rationalize',
+  'solve',
+  'integrate',
+] as const;
+export type SymbolicOperation = (typeof SYMBOLIC_OPERATIONS)[number];
+
+export interface SymbolicStep {
+  description: string;
+  latex: string;
+}
+
+export interface SymbolicResult {
+  variable?: string;
+  result: string;
+  latex: string;
+  steps: SymbolicStep[];
+  solutions?: string[]; // solve only
+  antiderivative?: string; // definite integrals only
+}
+
+export interface SymbolicRequest {
+  operation: SymbolicOperation;
+  expression: string;
+  variable?: string;
+  // Bounds of a definite integral
+  from?: number;
+  to?: number;
+}
+
+export class CalculatorError extends Error {
+  constructor(
+    public readonly code: CalculatorErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'CalculatorError';
+  }
+}
+
+export const MAX_EXPRESSION_LENGTH = 1_000;
+const EVALUATION_TIMEOUT_MS = Number(process.env.CALCULATOR_TIMEOUT_MS) || 1_000;
+// simplify and rationalize search rule sets and are much slower than evaluation
+const SYMBOLIC_TIMEOUT_MS = EVALUATION_TIMEOUT_MS * 5;
+
+const WORKER_PATH = path.join(process.cwd(), 'lib/math/calculator.worker.mjs');
+const WORKER_LIMITS = {
+  maxOldGenerationSizeMb: 64,
+  maxYoungGenerationSizeMb: 16,
+  stackSizeMb: 4,
+};
+
+type WorkerRequest = { operation: 'evaluate'; expression: string } | SymbolicRequest;
+
+type WorkerReply<T> =
+  | { id: number; ok: true; result: T }
+  | { id: number; ok: false; code: CalculatorErrorCode; message: string };
+
+const STARTUP_TIMEOUT_MS = 10_000;
+
+interface SandboxWorker {
+  thread: Worker;
+  // Resolves once mathjs has loaded, startup time does not count as evaluation
+  ready: Promise<void>;
+}
+
+let worker: SandboxWorker | null = null;
+let nextId = 0;
+// Evaluations are serialized so a timeout only ever terminates its own work
+let queue: Promise<unknown> = Promise.resolve();
+
+function getWorker(): SandboxWorker {
+  if (!worker) {
+    const thread = new Worker(WORKER_PATH, { resourceLimits: WORKER_LIMITS });
+    // An idle worker must not keep the process alive
+    thread.unref();
+    thread.on('error', (error) => console.error('Calculator worker error:', error));
+    const ready = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        void thread.terminate();
+        reject(new CalculatorError('resource_limit', 'Calculator worker did not start'));
+      }, STARTUP_TIMEOUT_MS);
+      thread.once('message', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      thread.once('exit', () => {
+        clearTimeout(timer);
+        reject(new CalculatorError('resource_limit', 'Calculator worker stopped unexpectedly'));
+      });
+    });
+    const created = { thread, ready };
+    thread.on('exit', () => {
+      if (worker === created) worker = null;
+    });
+    worker = created;
+  }
+  return worker;
+}
+
+async function runInWorker<T>(request: WorkerRequest, timeoutMs: number): Promise<T> {
+  const sandbox = getWorker();
+  await sandbox.ready;
+  const current = sandbox.thread;
+  const id = nextId++;
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      current.off('message', onMessage);
+      current.off('error', onError);
+      current.off('exit', onExit);
+    };
+    const fail = (error: CalculatorError) => {
+      cleanup();
+      if (worker === sandbox) worker = null;
+      void current.terminate();
+      reject(error);
+    };
+
+    const onMessage = (reply: WorkerReply<T>) => {
+      if (reply.id !== id) return;
+      cleanup();
+      if (reply.ok) resolve(reply.result);
+      else reject(new CalculatorError(reply.code, reply.message));
+    };
+    // Exceeding resourceLimits surfaces as ERR_WORKER_OUT_OF_MEMORY
+    const onError = (error: Error) =>
+      fail(
+        new CalculatorError('resource_limit', `Evaluation exceeded its limits: ${error.message}`),
+      );
+    const onExit = () =>
+      fail(new CalculatorError('resource_limit', 'Calculator worker stopped unexpectedly'));
+    const timer = setTimeout(
+      () => fail(new CalculatorError('timeout', `Evaluation took longer than ${timeoutMs} ms`)),
+      timeoutMs,
+    );
+
+    current.on('message', onMessage);
+    current.on('error', onError);
+    current.on('exit', onExit);
+    current.postMessage({ id, ...request });
+  });
+}
+
+function enqueue<T>(request: WorkerRequest, timeoutMs: number): Promise<T> {
+  if (request.expression.length > MAX_EXPRESSION_LENGTH) {
+    return Promise.reject(
+      new CalculatorError(
+        'too_long',
+        `Expression is ${request.expression.length} characters, the limit is ${MAX_EXPRESSION_LENGTH}`,
+      ),
+    );
+  }
+
+  const run = queue.then(() => runInWorker<T>(request, timeoutMs));
+  queue = run.catch(() => {});
+  return run;
+}
+
+export interface Evaluation {
+  value: number | boolean | string; // non-numeric results are formatted text
+  latex: string;
+}
+
+// Evaluate an expression in the sandbox, rejecting with a CalculatorError
+export function evaluateExpression(expression: string): Promise<Evaluation> {
+  return enqueue({ operation: 'evaluate', expression }, EVALUATION_TIMEOUT_MS);
+}
+
+export function runSymbolic(request: SymbolicRequest): Promise<SymbolicResult> {
+  return enqueue(request, SYMBOLIC_TIMEOUT_MS);
+}
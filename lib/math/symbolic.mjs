@@ -0,0 +1,326 @@
+// Symbolic operations for the calculator worker: derivative, simplify,
+// rationalize, polynomial equation solving and rule-based integration.
+// Every operation returns the result as text and LaTeX plus the steps that
+// led to it. Functions come from the restricted instance, captured before
+// their public names were disabled.
+
+const CONSTANTS = new Set(['e', 'E', 'pi', 'PI', 'i', 'tau', 'phi', 'Infinity', 'NaN']);
+const MAX_STEPS = 30;
+
+export class UnsupportedError extends Error {}
+
+export function createSymbolic({
+  parse,
+  simplify,
+  simplifyCore,
+  simplifyConstant,
+  derivative,
+  rationalize,
+  polynomialRoot,
+  format,
+}) {
+  const unwrap = (node) => (node.isParenthesisNode ? unwrap(node.content) : node);
+
+  // Free variables, skipping constants and the names of called functions
+  const variablesOf = (node) => {
+    const names = new Set();
+    node.traverse((child, path, parent) => {
+      if (!child.isSymbolNode || CONSTANTS.has(child.name)) return;
+      if (parent && parent.isFunctionNode && path === 'fn') return;
+      names.add(child.name);
+    });
+    return [...names].sort();
+  };
+
+  const pickVariable = (node, variable) => {
+    if (variable) return variable;
+    const names = variablesOf(node);
+    return names.includes('x') ? 'x' : (names[0] ?? 'x');
+  };
+
+  const dependsOn = (node, v) => variablesOf(node).includes(v);
+
+  // du/dx when u is linear in x (a constant slope), otherwise null
+  const linearSlope = (node, v) => {
+    const slope = derivative(node, v);
+    return dependsOn(slope, v) ? null : slope.toString();
+  };
+
+  const tex = (node) => node.toTex({ parenthesis: 'auto', implicit: 'hide' });
+  // simplify alone can produce forms like "cos(x) * -1", keep whichever reads shorter
+  const tidy = (node) =>
+    [simplify(node), simplifyCore(simplifyConstant(node))].sort(
+      (a, b) => a.toString().length - b.toString().length,
+    )[0];
+  const step = (steps, description, latex) => {
+    if (steps.length < MAX_STEPS) steps.push({ description, latex });
+  };
+  const formatValue = (value) =>
+    typeof value === 'number'
+      ? String(Number(format(value, { precision: 14 })))
+      : format(value, { precision: 14 });
+
+  function differentiate(expression, variable) {
+    const node = parse(expression);
+    const v = pickVariable(node, variable);
+    const steps = [];
+    step(
+      steps,
+      `Differentiate with respect to ${v}`,
+      `\\frac{d}{d${v}}\\left[${tex(node)}\\right]`,
+    );
+
+    const top = unwrap(node);
+    if (
+      top.isOperatorNode &&
+      (top.fn === 'add' || top.fn === 'subtract') &&
+      top.args.length === 2
+    ) {
+      const [left, right] = top.args.map((term) => derivative(term, v));
+      step(
+        steps,
+        'Differentiate term by term',
+        `${tex(left)} ${top.fn === 'add' ? '+' : '-'} \\left(${tex(right)}\\right)`,
+      );
+    }
+
+    const raw = simplifyCore(derivative(node, v, { simplify: false }));
+    const result = derivative(node, v);
+    if (raw.toString() !== result.toString()) {
+      step(steps, 'Apply the differentiation rules', tex(raw));
+    }
+    step(steps, 'Simplify', tex(result));
+    return { variable: v, result: result.toString(), latex: tex(result), steps };
+  }
+
+  function simplifyExpression(expression) {
+    const node = parse(expression);
+    const steps = [];
+    step(steps, 'Start from the expression', tex(node));
+    const core = simplifyCore(node);
+    if (core.toString() !== node.toString()) {
+      step(steps, 'Remove identities such as x·1 and x+0', tex(core));
+    }
+    const result = simplify(node);
+    if (result.toString() !== core.toString()) {
+      step(steps, 'Combine like terms and fold constants', tex(result));
+    }
+    return { result: result.toString(), latex: tex(result), steps };
+  }
+
+  function rationalizeExpression(expression) {
+    const node = parse(expression);
+    const steps = [];
+    step(steps, 'Start from the expression', tex(node));
+    const { expression: result, numerator, denominator } = rationalize(node, {}, true);
+    if (denominator) {
+      step(
+        steps,
+        'Combine into a single fraction',
+        `\\frac{${tex(numerator)}}{${tex(denominator)}}`,
+      );
+    }
+    step(steps, 'Expand to a polynomial ratio', tex(result));
+    return { result: result.toString(), latex: tex(result), steps };
+  }
+
+  function solve(equation, variable) {
+    // "lhs = rhs" is not valid mathjs syntax, split it before parsing
+    const sides = equation.split(/==|(?<![<>!])=/);
+    if (sides.length > 2) throw new UnsupportedError('Solve takes a single equation');
+    const [lhs, rhs = '0'] = sides;
+    const moved = simplify(parse(`(${lhs}) - (${rhs})`));
+    const v = pickVariable(moved, variable);
+    const steps = [];
+    step(steps, 'Move all terms to one side', `${tex(moved)} = 0`);
+
+    const others = variablesOf(moved).filter((name) => name !== v);
+    if (others.length > 0) {
+      throw new UnsupportedError(
+        `Only equations in one variable are supported, found ${others.join(', ')}`,
+      );
+    }
+
+    const { numerator, denominator, coefficients } = rationalize(moved, {}, true);
+    if (denominator) {
+      step(steps, `Multiply both sides by ${denominator.toString()}`, `${tex(numerator)} = 0`);
+    }
+    // A side that cancels to a constant has no coefficients, only its value
+    const c = coefficients.length > 0 ? [...coefficients] : [numerator.evaluate()];
+    while (c.length > 1 && c[c.length - 1] === 0) c.pop();
+    const degree = c.length - 1;
+
+    if (degree === 0) {
+      const all = c[0] === 0;
+      step(
+        steps,
+        all ? 'The equation holds for every value' : 'The equation has no solution',
+        all ? '0 = 0' : `${formatValue(c[0])} = 0`,
+      );
+      return {
+        variable: v,
+        result: all ? 'All real numbers' : 'No solution',
+        latex: all ? `${v} \\in \\mathbb{R}` : '\\varnothing',
+        solutions: [],
+        steps,
+      };
+    }
+    if (degree > 3) {
+      throw new UnsupportedError(
+        `Polynomials of degree ${degree} are not supported, the limit is 3`,
+      );
+    }
+
+    if (degree === 1) {
+      step(steps, `Isolate ${v}`, `${v} = -\\frac{${formatValue(c[0])}}{${formatValue(c[1])}}`);
+    } else if (degree === 2) {
+      const [cc, b, a] = c;
+      const discriminant = b * b - 4 * a * cc;
+      step(steps, 'Compute the discriminant', `\\Delta = b^2 - 4ac = ${formatValue(discriminant)}`);
+      step(steps, 'Apply the quadratic formula', `${v} = \\frac{-b \\pm \\sqrt{\\Delta}}{2a}`);
+    } else {
+      step(steps, 'Solve the cubic', `${tex(numerator)} = 0`);
+    }
+
+    const denominatorAt = (root) => denominator && denominator.compile().evaluate({ [v]: root });
+    const roots = polynomialRoot(...c).filter((root) => {
+      const value = denominatorAt(root);
+      return value === undefined || format(value) !== '0';
+    });
+    const solutions = [...new Set(roots.map(formatValue))];
+    const result = solutions.map((s) => `${v} = ${s}`).join(', ') || 'No solution';
+    const latex = solutions.length
+      ? solutions.map((s) => `${v} = ${tex(parse(s))}`).join(',\\; ')
+      : '\\varnothing';
+    step(steps, solutions.length === 1 ? 'Solution' : 'Solutions', latex);
+    return { variable: v, result, latex, solutions, steps };
+  }
+
+  // Antiderivative of one node as a string, recording the rule used
+  function antiderivative(node, v, steps, inSum = false) {
+    node = unwrap(node);
+    const record = (rule, result) => {
+      step(steps, rule, `\\int ${tex(node)}\\,d${v} = ${tex(tidy(parse(result)))}`);
+      return result;
+    };
+
+    if (!dependsOn(node, v)) return record('Constant rule', `(${node}) * ${v}`);
+    if (node.isSymbolNode) return record('Power rule', `${v}^2 / 2`);
+
+    if (node.isOperatorNode) {
+      const [a, b] = node.args;
+      if (node.fn === 'unaryMinus') return `-(${antiderivative(a, v, steps)})`;
+      if (node.fn === 'unaryPlus') return antiderivative(a, v, steps);
+      if (node.fn === 'add' || node.fn === 'subtract') {
+        if (!inSum) {
+          step(steps, 'Sum rule: integrate term by term', `\\int ${tex(node)}\\,d${v}`);
+        }
+        const sign = node.fn === 'add' ? '+' : '-';
+        return `(${antiderivative(a, v, steps, true)}) ${sign} (${antiderivative(b, v, steps, true)})`;
+      }
+      if (node.fn === 'multiply' && node.args.length === 2) {
+        if (!dependsOn(a, v)) return `(${a}) * (${antiderivative(b, v, steps)})`;
+        if (!dependsOn(b, v)) return `(${b}) * (${antiderivative(a, v, steps)})`;
+      }
+      if (node.fn === 'divide') {
+        if (!dependsOn(b, v)) return `(${antiderivative(a, v, steps)}) / (${b})`;
+        const slope = linearSlope(b, v);
+        if (!dependsOn(a, v) && slope) {
+          return record('Reciprocal rule', `(${a}) * log(abs(${b})) / (${slope})`);
+        }
+      }
+      if (node.fn === 'pow') {
+        if (!dependsOn(b, v)) {
+          const slope = linearSlope(a, v);
+          if (slope) {
+            const n = Number(simplify(b).toString());
+            if (n === -1) return record('Reciprocal rule', `log(abs(${a})) / (${slope})`);
+            return record('Power rule', `(${a})^((${b}) + 1) / (((${b}) + 1) * (${slope}))`);
+          }
+        } else if (!dependsOn(a, v)) {
+          const slope = linearSlope(b, v);
+          if (slope) {
+            const base = a.toString();
+            return record(
+              'Exponential rule',
+              base === 'e'
+                ? `e^(${b}) / (${slope})`
+                : `(${base})^(${b}) / (log(${base}) * (${slope}))`,
+            );
+          }
+        }
+      }
+    }
+
+    if (node.isFunctionNode && node.args.length === 1) {
+      const [u] = node.args;
+      const slope = linearSlope(u, v);
+      const rules = {
+        sin: ['Sine rule', `-cos(${u})`],
+        cos: ['Cosine rule', `sin(${u})`],
+        exp: ['Exponential rule', `exp(${u})`],
+        sinh: ['Hyperbolic sine rule', `cosh(${u})`],
+        cosh: ['Hyperbolic cosine rule', `sinh(${u})`],
+        sqrt: ['Power rule', `2 / 3 * (${u})^(3 / 2)`],
+      };
+      const rule = rules[node.fn.name];
+      if (rule && slope) return record(rule[0], `(${rule[1]}) / (${slope})`);
+    }
+
+    throw new UnsupportedError(`No integration rule for ${node.toString()}`);
+  }
+
+  function integrate(expression, variable, from, to) {
+    const node = parse(expression);
+    const v = pickVariable(node, variable);
+    const steps = [];
+    step(steps, `Integrate with respect to ${v}`, `\\int ${tex(node)}\\,d${v}`);
+
+    const antider = tidy(parse(antiderivative(simplifyCore(node), v, steps)));
+    step(steps, 'Simplify', tex(antider));
+
+    if (from === undefined || to === undefined) {
+      step(steps, 'Add the constant of integration', `${tex(antider)} + C`);
+      return {
+        variable: v,
+        result: `${antider.toString()} + C`,
+        latex: `${tex(antider)} + C`,
+        steps,
+      };
+    }
+
+    const F = antider.compile();
+    const value = F.evaluate({ [v]: to }) - F.evaluate({ [v]: from });
+    step(
+      steps,
+      `Evaluate from ${from} to ${to}`,
+      `\\left[${tex(antider)}\\right]_{${from}}^{${to}} = ${formatValue(value)}`,
+    );
+    return {
+      variable: v,
+      result: formatValue(value),
+      latex: `\\int_{${from}}^{${to}} ${tex(node)}\\,d${v} = ${formatValue(value)}`,
+      antiderivative: antider.toString(),
+      steps,
+    };
+  }
+
+  return {
+    run({ operation, expression, variable, from, to }) {
+      switch (operation) {
+        case 'derivative':
+          return differentiate(expression, variable);
+        case 'simplify':
+          return simplifyExpression(expression);
+        case 'rationalize':
+          return rationalizeExpression(expression);
+        case 'solve':
+          return solve(expression, variable);
+        case 'integrate':
+          return integrate(expression, variable, from, to);
+        default:
+          throw new UnsupportedError(`Unknown operation ${operation}`);
+      }
+    },
+  };
+}
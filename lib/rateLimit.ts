@@ -0,0 +1,115 @@
+import { Ratelimit } from '@upstash/ratelimit';
+import { redis } from '@/lib/database/redis';
+
+type Duration = Parameters<typeof Ratelimit.slidingWindow>[1];
+
+const REQUEST_LIMIT = Number(process.env.RATE_LIMIT_REQUESTS) || 20;
+const REQUEST_WINDOW = (process.env.RATE_LIMIT_WINDOW || '1 m') as Duration;
+const DAILY_TOKEN_LIMIT = Number(process.env.DAILY_TOKEN_LIMIT) || 200_000;
+
+export interface RequestLimitStatus {
+  limit: number;
+  remaining: number;
+  reset: number; // epoch ms
+}
+
+export interface TokenQuotaStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  reset: number; // epoch ms, next UTC midnight
+}
+
+export interface QuotaStatus {
+  requests: RequestLimitStatus;
+  tokens: TokenQuotaStatus;
+}
+
+// Sliding-window request limiter per Clerk userId
+const requestLimiter = redis
+  ? new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(REQUEST_LIMIT, REQUEST_WINDOW),
+      prefix: 'ratelimit:chat',
+    })
+  : null;
+
+const utcDay = (date = new Date()) => date.toISOString().slice(0, 10);
+const tokenKey = (userId: string) => `quota:tokens:${userId}:${utcDay()}`;
+
+const nextUtcMidnight = () => {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+};
+
+// Consume one request from the user's window
+export async function consumeRequest(
+  userId: string,
+): Promise<RequestLimitStatus & { success: boolean }> {
+  if (!requestLimiter) {
+    return { success: true, limit: REQUEST_LIMIT, remaining: REQUEST_LIMIT, reset: Date.now() };
+  }
+  const { success, limit, remaining, reset } = await requestLimiter.limit(userId);
+  return { success, limit, remaining, reset };
+}
+
+export async function getTokenQuota(userId: string): Promise<TokenQuotaStatus> {
+  const used = redis ? Number((await redis.get<number>(tokenKey(userId))) ?? 0) : 0;
+  return {
+    limit: DAILY_TOKEN_LIMIT,
+    used,
+    remaining: Math.max(0, DAILY_TOKEN_LIMIT - used),
+    reset: nextUtcMidnight(),
+  };
+}
+
+// Add tokens from a finished generation to today's budget
+export async function recordTokenUsage(userId: string, tokens: number): Promise<void> {
+  if (!redis || !tokens) return;
+  try {
+    const key = tokenKey(userId);
+    await redis.incrby(key, tokens);
+    await redis.expire(key, 60 * 60 * 48); // keep yesterday around for debugging
+  } catch (error) {
+    console.error('Error recording token usage in Redis:', error);
+  }
+}
+
+// Read current quota without consuming a request
+export async function getQuotaStatus(userId: string): Promise<QuotaStatus> {
+  const requests = requestLimiter
+    ? await requestLimiter.getRemaining(userId)
+    : { limit: REQUEST_LIMIT, remaining: REQUEST_LIMIT, reset: Date.now() };
+  return {
+    requests: {
+      limit: requests.limit,
+      remaining: requests.remaining,
+      reset: requests.reset,
+    },
+    tokens: await getTokenQuota(userId),
+  };
+}
+
+// Structured 429 with a Retry-After header
+export function quotaExceededResponse(
+  code: 'rate_limited' | 'token_quota_exceeded',
+  { limit, remaining, reset }: { limit: number; remaining: number; reset: number },
+): Response {
+  const retryAfter = Math.max(1, Math.ceil((reset - Date.now()) / 1000));
+  const message =
+    code === 'rate_limited'
+      ? 'Too many requests. Please wait before sending another message.'
+      : 'Daily token quota used up. It resets at midnight UTC.';
+  return Response.json(
+    { error: code, message, limit, remaining, reset, retryAfter },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(retryAfter),
+        'X-RateLimit-Limit': String(limit),
+        'X-RateLimit-Remaining': String(remaining),
+        'X-RateLimit-Reset': String(reset),
+      },
+    },
+  );
+}
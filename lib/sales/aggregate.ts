@@ -0,0 +1,268 @@
+import type { SalesRow } from '@/lib/sales/report';
+
+/**
+ * Sales Aggregation
+ *
+ * Deterministic group-by over parsed report rows, so totals and growth rates
+ * come from code rather than from the model. Weeks start on Monday and are
+ * labelled by that date; months are labelled YYYY-MM.
+ */
+
+export const SALES_GROUP_BY = ['asin', 'sku', 'week', 'month', 'none'] as const;
+export const SALES_METRICS = ['units', 'sales', 'orders', 'sessions', 'pageViews'] as const;
+
+export type SalesGroupBy = (typeof SALES_GROUP_BY)[number];
+export type SalesMetric = (typeof SALES_METRICS)[number];
+export type SalesAggregation = 'sum' | 'average';
+
+export interface SalesTable {
+  columns: string[];
+  rows: (string | number | null)[][];
+}
+
+export interface AggregateOptions {
+  groupBy: SalesGroupBy;
+  metrics: SalesMetric[];
+  aggregation: SalesAggregation;
+  growth?: boolean;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  asin?: string;
+  sku?: string;
+  sortBy?: SalesMetric;
+  limit: number;
+}
+
+export interface AggregateResult {
+  table: SalesTable;
+  totals: Partial<Record<SalesMetric, number | null>>;
+  rowCount: number; // report rows after filters
+  groupCount: number;
+  truncated: boolean;
+  dateRange?: { from: string; to: string };
+  growthBasis?: string; // "2024-03 vs 2024-02" when growth compares the latest month per group
+}
+
+export class SalesReportError extends Error {}
+
+interface Bucket {
+  sums: Partial<Record<SalesMetric, number>>;
+  counts: Partial<Record<SalesMetric, number>>;
+  orderIds: Set<string>;
+  title?: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function weekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+const monthOf = (date: string) => date.slice(0, 7);
+
+function nextPeriod(period: string, groupBy: 'week' | 'month'): string {
+  if (groupBy === 'week') {
+    const day = new Date(`${period}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() + 7);
+    return day.toISOString().slice(0, 10);
+  }
+  const [year, month] = period.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+function previousMonth(month: string): string {
+  const [year, m] = month.split('-').map(Number);
+  return m === 1 ? `${year - 1}-12` : `${year}-${String(m - 1).padStart(2, '0')}`;
+}
+
+const emptyBucket = (): Bucket => ({ sums: {}, counts: {}, orderIds: new Set() });
+
+// Order reports have one row per order line, so orders are counted from distinct order ids
+function addRow(bucket: Bucket, row: SalesRow, metrics: SalesMetric[]) {
+  bucket.title ??= row.title;
+  if (row.orderId) bucket.orderIds.add(row.orderId);
+  for (const metric of metrics) {
+    const value = row[metric];
+    if (value === undefined) continue;
+    bucket.sums[metric] = (bucket.sums[metric] ?? 0) + value;
+    bucket.counts[metric] = (bucket.counts[metric] ?? 0) + 1;
+  }
+}
+
+function metricValue(
+  bucket: Bucket | undefined,
+  metric: SalesMetric,
+  aggregation: SalesAggregation,
+): number | null {
+  if (!bucket) return aggregation === 'sum' ? 0 : null;
+  if (metric === 'orders' && bucket.counts.orders === undefined && bucket.orderIds.size > 0) {
+    return aggregation === 'sum' ? bucket.orderIds.size : null;
+  }
+  const sum = bucket.sums[metric];
+  const count = bucket.counts[metric];
+  if (sum === undefined || !count) return aggregation === 'sum' ? 0 : null;
+  return round(aggregation === 'sum' ? sum : sum / count);
+}
+
+const growthPercent = (current: number | null, previous: number | null) =>
+  current === null || previous === null || previous === 0
+    ? null
+    : Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10;
+
+function keyOf(row: SalesRow, groupBy: SalesGroupBy): string | undefined {
+  switch (groupBy) {
+    case 'asin':
+      return row.asin;
+    case 'sku':
+      return row.sku;
+    case 'week':
+      return row.date && weekStart(row.date);
+    case 'month':
+      return row.date && monthOf(row.date);
+    case 'none':
+      return 'all';
+  }
+}
+
+export function aggregateSales(rows: SalesRow[], options: AggregateOptions): AggregateResult {
+  const { groupBy, metrics, aggregation, limit } = options;
+  const timeGrouping = groupBy === 'week' || groupBy === 'month';
+  const hasDates = rows.some((row) => row.date);
+
+  if ((timeGrouping || options.from || options.to) && !hasDates) {
+    throw new SalesReportError(
+      'The report has no date column, so it cannot be grouped or filtered by date',
+    );
+  }
+  if (options.growth && !hasDates) {
+    throw new SalesReportError('Growth needs a date column to compare periods');
+  }
+  if (groupBy !== 'none' && !timeGrouping && !rows.some((row) => keyOf(row, groupBy))) {
+    throw new SalesReportError(`The report has no ${groupBy.toUpperCase()} column`);
+  }
+  const missing = metrics.filter(
+    (metric) =>
+      !rows.some((row) => row[metric] !== undefined || (metric === 'orders' && row.orderId)),
+  );
+  if (missing.length > 0) {
+    throw new SalesReportError(`The report has no column for: ${missing.join(', ')}`);
+  }
+
+  const filtered = rows.filter(
+    (row) =>
+      (!options.asin || row.asin?.toUpperCase() === options.asin.toUpperCase()) &&
+      (!options.sku || row.sku === options.sku) &&
+      (!options.from || (row.date !== undefined && row.date >= options.from)) &&
+      (!options.to || (row.date !== undefined && row.date <= options.to)),
+  );
+
+  const buckets = new Map<string, Bucket>();
+  const total = emptyBucket();
+  for (const row of filtered) {
+    addRow(total, row, metrics);
+    const key = keyOf(row, groupBy);
+    if (!key) continue;
+    if (!buckets.has(key)) buckets.set(key, emptyBucket());
+    addRow(buckets.get(key)!, row, metrics);
+  }
+
+  const dates = filtered.flatMap((row) => (row.date ? [row.date] : [])).sort();
+  const dateRange = dates.length ? { from: dates[0], to: dates[dates.length - 1] } : undefined;
+  const totals = Object.fromEntries(
+    metrics.map((metric) => [metric, metricValue(total, metric, aggregation)]),
+  ) as Partial<Record<SalesMetric, number | null>>;
+
+  const showTitle = (groupBy === 'asin' || groupBy === 'sku') && filtered.some((row) => row.title);
+  const columns = [
+    ...(groupBy === 'none'
+      ? []
+      : [groupBy === 'asin' ? 'ASIN' : groupBy === 'sku' ? 'SKU' : groupBy]),
+    ...(showTitle ? ['title'] : []),
+    ...metrics,
+  ];
+  const growthColumns = options.growth ? metrics.map((metric) => `${metric} growth %`) : [];
+
+  let tableRows: (string | number | null)[][];
+  let growthBasis: string | undefined;
+  let keys: string[];
+
+  if (timeGrouping) {
+    // Periods without sales are filled in so growth compares neighbouring periods
+    const sorted = [...buckets.keys()].sort();
+    keys = [];
+    let period = sorted[0];
+    while (period && period <= sorted[sorted.length - 1]) {
+      keys.push(period);
+      period = nextPeriod(period, groupBy);
+    }
+    const values = keys.map((key) =>
+      metrics.map((metric) => metricValue(buckets.get(key), metric, aggregation)),
+    );
+    tableRows = keys.map((key, i) => [
+      key,
+      ...values[i],
+      ...(options.growth
+        ? metrics.map((_, m) => (i === 0 ? null : growthPercent(values[i][m], values[i - 1][m])))
+        : []),
+    ]);
+    // The most recent periods matter most for trends
+    tableRows = tableRows.slice(-limit);
+  } else {
+    keys = groupBy === 'none' ? ['all'] : [...buckets.keys()];
+    let growthByKey = new Map<string, (number | null)[]>();
+    if (options.growth) {
+      const latest = monthOf(dates[dates.length - 1] ?? '');
+      const previous = previousMonth(latest);
+      // The latest month may still be partial, the basis says which months were compared
+      growthBasis = `${latest} vs ${previous}`;
+      growthByKey = new Map(
+        keys.map((key) => {
+          const current = emptyBucket();
+          const before = emptyBucket();
+          for (const row of filtered) {
+            if (keyOf(row, groupBy) !== key || !row.date) continue;
+            if (monthOf(row.date) === latest) addRow(current, row, metrics);
+            else if (monthOf(row.date) === previous) addRow(before, row, metrics);
+          }
+          return [
+            key,
+            metrics.map((metric) =>
+              growthPercent(
+                metricValue(current, metric, aggregation),
+                metricValue(before, metric, aggregation),
+              ),
+            ),
+          ];
+        }),
+      );
+    }
+    const sortBy = options.sortBy && metrics.includes(options.sortBy) ? options.sortBy : metrics[0];
+    tableRows = keys
+      .map((key) => {
+        const bucket = groupBy === 'none' ? total : buckets.get(key)!;
+        return [
+          ...(groupBy === 'none' ? [] : [key]),
+          ...(showTitle ? [bucket.title ?? null] : []),
+          ...metrics.map((metric) => metricValue(bucket, metric, aggregation)),
+          ...(options.growth ? (growthByKey.get(key) ?? []) : []),
+        ];
+      })
+      .sort((a, b) => {
+        const index = columns.indexOf(sortBy);
+        return Number(b[index] ?? -Infinity) - Number(a[index] ?? -Infinity);
+      })
+      .slice(0, limit);
+  }
+
+  return {
+    table: { columns: [...columns, ...growthColumns], rows: tableRows },
+    totals,
+    rowCount: filtered.length,
+    groupCount: keys.length,
+    truncated: keys.length > limit,
+    dateRange,
+    growthBasis,
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * CSV Parsing
+ *
+ * Minimal RFC 4180 parser for report downloads: quoted fields, escaped quotes
+ * and line breaks inside quotes. Amazon flat files are tab separated, so the
+ * delimiter is picked from the header line.
+ */
+
+const DELIMITERS = [',', '\t', ';'];
+
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0];
+  const counts = DELIMITERS.map((d) => header.split(d).length);
+  return DELIMITERS[counts.indexOf(Math.max(...counts))];
+}
+
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      field = '';
+      if (row.some((value) => value.trim())) rows.push(row);
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some((value) => value.trim())) rows.push(row);
+  return rows;
+}
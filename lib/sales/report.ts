@@ -0,0 +1,201 @@
+import { parseCsv } from '@/lib/sales/csv';
+
+/**
+ * Sales Report Detection
+ *
+ * Maps the columns of an Amazon Business Report, an order report or a
+ * hand-made export onto a fixed set of fields and parses every row into
+ * typed values. Header names are compared without case, spaces or
+ * punctuation, so "Units Ordered", "units-ordered" and "units_ordered" match.
+ */
+
+export type SalesField =
+  | 'date'
+  | 'asin'
+  | 'sku'
+  | 'title'
+  | 'units'
+  | 'sales'
+  | 'orders'
+  | 'sessions'
+  | 'pageViews'
+  | 'orderId'
+  | 'status'
+  | 'currency';
+
+export type SalesReportType = 'business-report' | 'order-report' | 'custom';
+
+export interface SalesRow {
+  date?: string; // YYYY-MM-DD
+  asin?: string;
+  sku?: string;
+  title?: string;
+  units?: number;
+  sales?: number;
+  orders?: number;
+  sessions?: number;
+  pageViews?: number;
+  orderId?: string;
+}
+
+export interface SalesReport {
+  type: SalesReportType;
+  columns: Partial<Record<SalesField, string>>; // field -> header as written in the file
+  currency?: string;
+  rows: SalesRow[];
+  skippedRows: number; // cancelled orders and rows without any value
+}
+
+// Normalized header names per field, in order of preference
+const ALIASES: Record<SalesField, string[]> = {
+  date: ['date', 'purchasedate', 'orderdate', 'day', 'week', 'month', 'period', 'shipmentdate'],
+  asin: ['childasin', 'asin', 'parentasin'],
+  sku: ['sku', 'sellersku', 'merchantsku', 'msku'],
+  title: ['title', 'productname', 'itemname', 'product'],
+  units: ['unitsordered', 'quantity', 'quantitypurchased', 'units', 'unitssold', 'qty'],
+  sales: [
+    'orderedproductsales',
+    'itemprice',
+    'productsales',
+    'sales',
+    'revenue',
+    'grosssales',
+    'totalsales',
+  ],
+  orders: ['totalorderitems', 'orders', 'ordercount'],
+  sessions: ['sessionstotal', 'sessions'],
+  pageViews: ['pageviewstotal', 'pageviews'],
+  orderId: ['amazonorderid', 'orderid'],
+  status: ['orderstatus', 'itemstatus', 'status'],
+  currency: ['currency', 'currencycode'],
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function detectColumns(header: string[]): Partial<Record<SalesField, string>> {
+  const normalized = header.map(normalizeHeader);
+  const columns: Partial<Record<SalesField, string>> = {};
+  for (const [field, aliases] of Object.entries(ALIASES) as [SalesField, string[]][]) {
+    for (const alias of aliases) {
+      const index = normalized.indexOf(alias);
+      if (index !== -1) {
+        columns[field] = header[index];
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+// A file counts as a sales report when it has something to sum and something to group by
+export function isSalesReport(columns: Partial<Record<SalesField, string>>): boolean {
+  return (
+    Boolean(columns.units || columns.sales || columns.orders) &&
+    Boolean(columns.date || columns.asin || columns.sku)
+  );
+}
+
+// "$1,234.56", "1.234,56 €", "12%" -> number; thousands separators are told apart from decimal commas
+export function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  let text = value.replace(/[^0-9.,-]/g, '');
+  if (!/\d/.test(text)) return undefined;
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    text = /^-?\d{1,3}(,\d{3})+$/.test(text)
+      ? text.replace(/,/g, '')
+      : text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+  const number = Number(text);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// ISO dates and timestamps, US "1/15/24" as used by Business Reports, and "15.01.2024"
+export function parseDate(value: string | undefined): string | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+  let year: number, month: number, day: number;
+  let match = text.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3] ?? 1)];
+  } else if ((match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/))) {
+    [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})\b/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    return undefined;
+  }
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function reportType(columns: Partial<Record<SalesField, string>>): SalesReportType {
+  if (columns.orderId) return 'order-report';
+  if (columns.sessions || columns.pageViews) return 'business-report';
+  return 'custom';
+}
+
+export function parseSalesReport(text: string): SalesReport | null {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return null;
+  const columns = detectColumns(header.map((h) => h.trim()));
+  if (!isSalesReport(columns)) return null;
+
+  const index = Object.fromEntries(
+    Object.entries(columns).map(([field, name]) => [
+      field,
+      header.findIndex((h) => h.trim() === name),
+    ]),
+  ) as Partial<Record<SalesField, number>>;
+  const cell = (record: string[], field: SalesField) =>
+    index[field] === undefined ? undefined : record[index[field]]?.trim() || undefined;
+
+  let currency: string | undefined;
+  let skippedRows = 0;
+  const rows: SalesRow[] = [];
+  for (const record of records) {
+    if (/cancel/i.test(cell(record, 'status') ?? '')) {
+      skippedRows++;
+      continue;
+    }
+    const rawSales = cell(record, 'sales');
+    currency ??=
+      cell(record, 'currency') ??
+      Object.entries(CURRENCY_SYMBOLS).find(([symbol]) => rawSales?.includes(symbol))?.[1];
+
+    const row: SalesRow = {
+      date: parseDate(cell(record, 'date')),
+      asin: cell(record, 'asin'),
+      sku: cell(record, 'sku'),
+      title: cell(record, 'title'),
+      units: parseNumber(cell(record, 'units')),
+      sales: parseNumber(rawSales),
+      orders: parseNumber(cell(record, 'orders')),
+      sessions: parseNumber(cell(record, 'sessions')),
+      pageViews: parseNumber(cell(record, 'pageViews')),
+      orderId: cell(record, 'orderId'),
+    };
+    if (row.units === undefined && row.sales === undefined && row.orders === undefined) {
+      skippedRows++;
+      continue;
+    }
+    rows.push(row);
+  }
+
+  return { type: reportType(columns), columns, currency, rows, skippedRows };
+}
@@ -0,0 +1,38 @@
+/**
+ * Stream Cursor
+ *
+ * Wraps fetch for the chat transport and counts the SSE events received on
+ * the current generation, so a reconnect can ask the server to replay only
+ * the chunks this client has not seen yet.
+ */
+export function createChunkCountingFetch(counter: { current: number }): typeof fetch {
+  return async (input, init) => {
+    // A POST starts a new generation, a GET reconnects and keeps counting
+    if ((init?.method ?? 'GET').toUpperCase() === 'POST') {
+      counter.current = 0;
+    }
+
+    const response = await fetch(input, init);
+    if (!response.ok || !response.body) return response;
+
+    const decoder = new TextDecoder();
+    let tail = '';
+    const counted = response.body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          // Events end with a blank line, which can be split across network chunks
+          const text = tail + decoder.decode(chunk, { stream: true });
+          counter.current += text.split('\n\n').length - 1;
+          tail = text.endsWith('\n') && !text.endsWith('\n\n') ? '\n' : '';
+          controller.enqueue(chunk);
+        },
+      }),
+    );
+
+    return new Response(counted, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
@@ -1,3 +1,6 @@
+import type { UIMessage } from "ai";
+import type { ToolSpan } from "@/lib/ai/toolTrace";
+
 export type Stage = "searching" | "reading" | "writing";
 
 export interface SearchInfo {
@@ -16,6 +19,18 @@ export interface Message {
   createdAt?: number;
 }
 
+// Metadata attached to UI messages by /api/chat
+export interface ChatMessageMetadata {
+  model?: string;
+  createdAt?: number;
+  pinned?: boolean; // always kept verbatim in the model context
+  status?: 'stopped'; // generation was stopped before it finished
+  accepted?: boolean; // version of a regenerated answer the user chose
+  trace?: ToolSpan[]; // tool executions that produced the answer
+}
+
+export type ChatUIMessage = UIMessage<ChatMessageMetadata>;
+
 export interface StreamEventContent {
   type: "content";
   data: string;
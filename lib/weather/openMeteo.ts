@@ -0,0 +1,259 @@
+import { fetchJson } from '@/lib/http/client';
+import { describeWeatherCode, type WeatherCondition } from '@/lib/weather/wmo';
+
+/**
+ * Open-Meteo Client
+ *
+ * Geocoding and forecasts from the free Open-Meteo APIs. Times are returned
+ * in the location's own timezone, so hourly and daily rows read as local
+ * time at the warehouse rather than the server's.
+ */
+
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+export type ForecastMode = 'current' | 'hourly' | 'daily';
+
+export interface Place {
+  id: number;
+  name: string;
+  region?: string; // state / province (admin1)
+  country: string;
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+  population?: number;
+}
+
+export interface PlaceMatch {
+  place: Place | null;
+  // Same-name places, shown so the user can pick another one
+  candidates: Place[];
+  ambiguous: boolean;
+}
+
+export interface CurrentConditions {
+  time: string; // local time of the observation
+  temperature: number;
+  feelsLike: number;
+  humidity: number; // %
+  precipitation: number; // mm in the last interval
+  precipitationProbability: number | null; // % for the current hour
+  windSpeed: number; // km/h
+  windGusts: number; // km/h
+  condition: WeatherCondition;
+}
+
+export interface HourlyForecast {
+  time: string;
+  temperature: number;
+  humidity: number;
+  precipitationProbability: number | null;
+  precipitation: number;
+  windSpeed: number;
+  windGusts: number;
+  condition: WeatherCondition;
+}
+
+export interface DailyForecast {
+  date: string;
+  temperatureMax: number;
+  temperatureMin: number;
+  precipitationSum: number;
+  precipitationProbability: number | null;
+  windSpeedMax: number;
+  windGustsMax: number;
+  sunrise: string;
+  sunset: string;
+  condition: WeatherCondition;
+}
+
+export interface Forecast {
+  timezone: string;
+  localTime: string; // "YYYY-MM-DD HH:mm" at the location when fetched
+  current: CurrentConditions;
+  hourly?: HourlyForecast[];
+  daily?: DailyForecast[];
+}
+
+export const MAX_FORECAST_DAYS = 16;
+export const MAX_FORECAST_HOURS = 72;
+
+const GEOCODE_RESULTS = 10;
+// A same-name place this many times larger than the next one is taken as meant
+const DOMINANT_POPULATION_RATIO = 10;
+
+const CURRENT_FIELDS = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'apparent_temperature',
+  'precipitation',
+  'weather_code',
+  'wind_speed_10m',
+  'wind_gusts_10m',
+];
+const HOURLY_FIELDS = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'precipitation_probability',
+  'precipitation',
+  'weather_code',
+  'wind_speed_10m',
+  'wind_gusts_10m',
+];
+const DAILY_FIELDS = [
+  'weather_code',
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'precipitation_sum',
+  'precipitation_probability_max',
+  'wind_speed_10m_max',
+  'wind_gusts_10m_max',
+  'sunrise',
+  'sunset',
+];
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Geocode
+ *
+ * "Springfield, Illinois" or "London, CA" is split into the place name,
+ * which Open-Meteo searches for, and a hint matched against region, country
+ * and country code.
+ */
+export async function geocode(query: string, signal?: AbortSignal): Promise<PlaceMatch> {
+  const [name, ...hintParts] = query.split(',').map((part) => part.trim());
+  const hint = normalize(hintParts.join(' '));
+
+  const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(
+    name,
+  )}&count=${GEOCODE_RESULTS}&language=en&format=json`;
+  const data = await fetchJson(url, { provider: 'open-meteo', signal });
+
+  let places: Place[] = (data.results ?? []).map(
+    (r: Record<string, unknown>): Place => ({
+      id: Number(r.id),
+      name: String(r.name),
+      region: typeof r.admin1 === 'string' ? r.admin1 : undefined,
+      country: String(r.country ?? ''),
+      countryCode: String(r.country_code ?? ''),
+      latitude: Number(r.latitude),
+      longitude: Number(r.longitude),
+      population: typeof r.population === 'number' ? r.population : undefined,
+    }),
+  );
+
+  if (hint) {
+    // An exact country code wins over a name that merely contains the hint
+    const byCode = places.filter((p) => normalize(p.countryCode) === hint);
+    places = byCode.length
+      ? byCode
+      : places.filter(
+          (p) =>
+            [p.region, p.country].some((field) => field && normalize(field).includes(hint)) ||
+            (p.region && hint.includes(normalize(p.region))),
+        );
+  }
+  if (places.length === 0) return { place: null, candidates: [], ambiguous: false };
+
+  const sameName = places
+    .filter((p) => normalize(p.name) === normalize(name))
+    .sort((a, b) => (b.population ?? 0) - (a.population ?? 0));
+  if (sameName.length <= 1) {
+    return { place: sameName[0] ?? places[0], candidates: [], ambiguous: false };
+  }
+
+  const [first, second] = sameName;
+  const dominant =
+    (first.population ?? 0) > 0 &&
+    (first.population ?? 0) >= (second.population ?? 0) * DOMINANT_POPULATION_RATIO;
+  return dominant
+    ? { place: first, candidates: sameName.slice(1), ambiguous: false }
+    : { place: null, candidates: sameName, ambiguous: true };
+}
+
+export const describePlace = (place: Place) =>
+  [place.name, place.region, place.country].filter(Boolean).join(', ');
+
+// Current wall-clock time at a UTC offset, formatted "YYYY-MM-DD HH:mm"
+const localTimeAt = (utcOffsetSeconds: number) =>
+  new Date(Date.now() + utcOffsetSeconds * 1000).toISOString().slice(0, 16).replace('T', ' ');
+
+export async function getForecast(
+  place: Place,
+  {
+    mode,
+    units,
+    days = 7,
+    hours = 24,
+  }: { mode: ForecastMode; units: TemperatureUnit; days?: number; hours?: number },
+  signal?: AbortSignal,
+): Promise<Forecast> {
+  const params = new URLSearchParams({
+    latitude: String(place.latitude),
+    longitude: String(place.longitude),
+    current: CURRENT_FIELDS.join(','),
+    // The current hour's precipitation probability is only available hourly
+    hourly: mode === 'hourly' ? HOURLY_FIELDS.join(',') : 'precipitation_probability',
+    forecast_hours: String(mode === 'hourly' ? Math.min(hours, MAX_FORECAST_HOURS) : 1),
+    temperature_unit: units,
+    wind_speed_unit: 'kmh',
+    timezone: 'auto',
+  });
+  if (mode === 'daily') {
+    params.set('daily', DAILY_FIELDS.join(','));
+    params.set('forecast_days', String(Math.min(days, MAX_FORECAST_DAYS)));
+  }
+
+  const data = await fetchJson(`https://api.open-meteo.com/v1/forecast?${params}`, {
+    provider: 'open-meteo',
+    signal,
+  });
+  if (!data.current) throw new Error('Weather data unavailable');
+
+  const { current, hourly, daily } = data;
+  const forecast: Forecast = {
+    timezone: data.timezone,
+    localTime: localTimeAt(data.utc_offset_seconds ?? 0),
+    current: {
+      time: current.time,
+      temperature: current.temperature_2m,
+      feelsLike: current.apparent_temperature,
+      humidity: current.relative_humidity_2m,
+      precipitation: current.precipitation,
+      precipitationProbability: hourly?.precipitation_probability?.[0] ?? null,
+      windSpeed: current.wind_speed_10m,
+      windGusts: current.wind_gusts_10m,
+      condition: describeWeatherCode(current.weather_code),
+    },
+  };
+
+  if (mode === 'hourly' && hourly) {
+    forecast.hourly = (hourly.time as string[]).map((time, i) => ({
+      time,
+      temperature: hourly.temperature_2m[i],
+      humidity: hourly.relative_humidity_2m[i],
+      precipitationProbability: hourly.precipitation_probability[i] ?? null,
+      precipitation: hourly.precipitation[i],
+      windSpeed: hourly.wind_speed_10m[i],
+      windGusts: hourly.wind_gusts_10m[i],
+      condition: describeWeatherCode(hourly.weather_code[i]),
+    }));
+  }
+
+  if (mode === 'daily' && daily) {
+    forecast.daily = (daily.time as string[]).map((date, i) => ({
+      date,
+      temperatureMax: daily.temperature_2m_max[i],
+      temperatureMin: daily.temperature_2m_min[i],
+      precipitationSum: daily.precipitation_sum[i],
+      precipitationProbability: daily.precipitation_probability_max[i] ?? null,
+      windSpeedMax: daily.wind_speed_10m_max[i],
+      windGustsMax: daily.wind_gusts_10m_max[i],
+      sunrise: daily.sunrise[i],
+      sunset: daily.sunset[i],
+      condition: describeWeatherCode(daily.weather_code[i]),
+    }));
+  }
+
+  return forecast;
+}
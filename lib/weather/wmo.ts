@@ -0,0 +1,51 @@
+/**
+ * WMO Weather Codes
+ *
+ * The subset of WMO 4677 present-weather codes that Open-Meteo reports, not
+ * the full 00–99 table. `severe` marks conditions that can disrupt road
+ * freight: heavy rain or snow, freezing precipitation and thunderstorms.
+ */
+
+export interface WeatherCondition {
+  code: number;
+  description: string;
+  severe: boolean;
+}
+
+const WMO_CODES: Record<number, Omit<WeatherCondition, 'code'>> = {
+  0: { description: 'Clear sky', severe: false },
+  1: { description: 'Mainly clear', severe: false },
+  2: { description: 'Partly cloudy', severe: false },
+  3: { description: 'Overcast', severe: false },
+  45: { description: 'Fog', severe: false },
+  48: { description: 'Depositing rime fog', severe: false },
+  51: { description: 'Light drizzle', severe: false },
+  53: { description: 'Moderate drizzle', severe: false },
+  55: { description: 'Dense drizzle', severe: false },
+  56: { description: 'Light freezing drizzle', severe: true },
+  57: { description: 'Dense freezing drizzle', severe: true },
+  61: { description: 'Slight rain', severe: false },
+  63: { description: 'Moderate rain', severe: false },
+  65: { description: 'Heavy rain', severe: true },
+  66: { description: 'Light freezing rain', severe: true },
+  67: { description: 'Heavy freezing rain', severe: true },
+  71: { description: 'Slight snowfall', severe: false },
+  73: { description: 'Moderate snowfall', severe: false },
+  75: { description: 'Heavy snowfall', severe: true },
+  77: { description: 'Snow grains', severe: false },
+  80: { description: 'Slight rain showers', severe: false },
+  81: { description: 'Moderate rain showers', severe: false },
+  82: { description: 'Violent rain showers', severe: true },
+  85: { description: 'Slight snow showers', severe: false },
+  86: { description: 'Heavy snow showers', severe: true },
+  95: { description: 'Thunderstorm', severe: true },
+  96: { description: 'Thunderstorm with slight hail', severe: true },
+  99: { description: 'Thunderstorm with heavy hail', severe: true },
+};
+
+export function describeWeatherCode(code: number): WeatherCondition {
+  const known = WMO_CODES[code];
+  return known
+    ? { code, ...known }
+    : { code, description: `Unknown (WMO code ${code})`, severe: false };
+}
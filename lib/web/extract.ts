@@ -0,0 +1,187 @@
+import { estimateTokens } from '@/lib/ai/context';
+
+/**
+ * Readable Content Extraction
+ *
+ * Reduces an HTML page to its main text without a DOM: metadata comes from
+ * meta tags, JSON-LD and <time>, the body from <article> or <main> when the
+ * page has one. Navigation, forms and link-heavy blocks are dropped.
+ */
+
+export interface ReadableContent {
+  url: string;
+  title: string | null;
+  byline: string | null;
+  publishedAt: string | null;
+  siteName: string | null;
+  text: string;
+  tokens: number;
+  truncated: boolean;
+}
+
+const REMOVED_ELEMENTS = [
+  'script', 'style', 'noscript', 'svg', 'iframe', 'form', 'button', 'select',
+  'nav', 'header', 'footer', 'aside', 'figure', 'template', 'canvas',
+];
+const BLOCK_TAGS = 'p|div|section|article|main|li|ul|ol|table|tr|blockquote|pre|h[1-6]|br|hr|dd|dt';
+const MIN_BLOCK_WORDS = 4;
+const MAX_LINK_DENSITY = 0.5;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', copy: '©',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      // Out-of-range and surrogate code points would throw or produce broken text
+      const valid = code <= 0x10ffff && !(code >= 0xd800 && code <= 0xdfff);
+      return valid ? String.fromCodePoint(code) : '\uFFFD';
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const stripTags = (html: string) =>
+  decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+function metaContent(html: string, names: string[]): string | null {
+  for (const name of names) {
+    const tag = html.match(
+      new RegExp(`<meta[^>]+(?:name|property|itemprop)=["']${name}["'][^>]*>`, 'i'),
+    )?.[0];
+    const content = tag?.match(/content=["']([^"']*)["']/i)?.[1];
+    if (content?.trim()) return decodeEntities(content.trim());
+  }
+  return null;
+}
+
+// Article fields from JSON-LD blocks, which many news sites include
+function jsonLdArticle(html: string): { author?: string; datePublished?: string; headline?: string } {
+  const blocks = html.matchAll(/<script[^>]+application\/ld\+json[^>]*>([\s\S]*?)<\/script>/gi);
+  for (const [, json] of blocks) {
+    try {
+      const data = JSON.parse(json);
+      const items: unknown[] = Array.isArray(data) ? data : data['@graph'] ?? [data];
+      for (const item of items) {
+        const entry = item as Record<string, unknown>;
+        if (!entry || typeof entry !== 'object' || !entry.datePublished) continue;
+        const author = Array.isArray(entry.author) ? entry.author[0] : entry.author;
+        return {
+          headline: typeof entry.headline === 'string' ? entry.headline : undefined,
+          datePublished: String(entry.datePublished),
+          author:
+            typeof author === 'string'
+              ? author
+              : typeof (author as { name?: unknown })?.name === 'string'
+                ? (author as { name: string }).name
+                : undefined,
+        };
+      }
+    } catch {
+      // Ignore malformed JSON-LD
+    }
+  }
+  return {};
+}
+
+// Prefer the page's own article container, fall back to <body>
+function mainContainer(html: string): string {
+  for (const tag of ['article', 'main']) {
+    const matches = [...html.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'gi'))];
+    if (matches.length > 0) {
+      // Several <article> elements usually means a listing, take the longest
+      return matches.map((m) => m[1]).sort((a, b) => b.length - a.length)[0];
+    }
+  }
+  return html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+}
+
+function removeBoilerplate(html: string): string {
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of REMOVED_ELEMENTS) {
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}>`, 'gi'), ' ');
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[^>]*/?>`, 'gi'), ' ');
+  }
+  return cleaned;
+}
+
+// Split into text blocks, keeping headings and dropping menus and link lists
+function textBlocks(html: string): string[] {
+  const marked = html
+    .replace(/<h([1-6])\b[^>]*>/gi, (_, level: string) => `\n\n${'#'.repeat(Number(level))} `)
+    .replace(/<li\b[^>]*>/gi, '\n\n- ')
+    .replace(new RegExp(`</?(?:${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n\n');
+
+  return marked
+    .split(/\n{2,}/)
+    .map((block) => {
+      const linkText = [...block.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi)]
+        .map((m) => stripTags(m[1]))
+        .join(' ');
+      const text = stripTags(block);
+      return { text, linkDensity: text ? linkText.length / text.length : 1 };
+    })
+    .filter(({ text, linkDensity }) => {
+      if (!text) return false;
+      if (text.startsWith('#')) return true;
+      return text.split(' ').length >= MIN_BLOCK_WORDS && linkDensity <= MAX_LINK_DENSITY;
+    })
+    .map(({ text }) => text);
+}
+
+// Cut at a paragraph boundary so the excerpt stays readable
+export function truncateToTokens(
+  blocks: string[],
+  maxTokens: number,
+): { text: string; truncated: boolean } {
+  const kept: string[] = [];
+  let used = 0;
+  for (const block of blocks) {
+    const tokens = estimateTokens(block) + 1;
+    if (used + tokens > maxTokens) {
+      if (kept.length === 0) kept.push(block.slice(0, maxTokens * 4));
+      return { text: kept.join('\n\n'), truncated: true };
+    }
+    kept.push(block);
+    used += tokens;
+  }
+  return { text: kept.join('\n\n'), truncated: false };
+}
+
+export function extractReadableContent(
+  html: string,
+  url: string,
+  maxTokens: number,
+): ReadableContent {
+  const ld = jsonLdArticle(html);
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const title =
+    metaContent(html, ['og:title', 'twitter:title']) ??
+    ld.headline ??
+    (titleTag ? stripTags(titleTag) : null);
+  const byline =
+    metaContent(html, ['author', 'article:author', 'byl', 'parsely-author']) ?? ld.author ?? null;
+  const publishedAt =
+    metaContent(html, ['article:published_time', 'datePublished', 'pubdate', 'date']) ??
+    ld.datePublished ??
+    html.match(/<time[^>]+datetime=["']([^"']+)["']/i)?.[1] ??
+    null;
+  const siteName = metaContent(html, ['og:site_name', 'application-name']);
+
+  const blocks = textBlocks(removeBoilerplate(mainContainer(html)));
+  const { text, truncated } = truncateToTokens(blocks, maxTokens);
+
+  return {
+    url,
+    title,
+    byline,
+    publishedAt,
+    siteName,
+    text,
+    tokens: estimateTokens(text),
+    truncated,
+  };
+}
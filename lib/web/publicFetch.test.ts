@@ -0,0 +1,172 @@
+// Test file to verify readPage cannot be pointed at internal hosts
+import { createServer } from 'node:http';
+import { createRequire } from 'node:module';
+import type { AddressInfo } from 'node:net';
+import { fetchPublicPage, isPublicAddress, NonPublicUrlError } from '@/lib/web/publicFetch';
+
+// The real module objects, so their lookups can be swapped for the rebinding case
+const dns = createRequire(`${process.cwd()}/`)('node:dns') as typeof import('node:dns');
+
+const addresses: [string, boolean][] = [
+  ['127.0.0.1', false],
+  ['10.0.0.5', false],
+  ['100.64.1.1', false],
+  ['169.254.169.254', false],
+  ['172.20.0.1', false],
+  ['192.168.1.1', false],
+  ['0.0.0.0', false],
+  ['::1', false],
+  ['::', false],
+  ['fd00::1', false],
+  ['fe80::1', false],
+  // IPv4-mapped and embedded IPv4 forms
+  ['::ffff:127.0.0.1', false],
+  ['::ffff:7f00:1', false],
+  ['::ffff:a9fe:a9fe', false],
+  ['0:0:0:0:0:ffff:a00:5', false],
+  ['64:ff9b::a9fe:a9fe', false],
+  ['2002:7f00:1::', false],
+  ['8.8.8.8', true],
+  ['93.184.216.34', true],
+  ['::ffff:8.8.8.8', true],
+  ['2606:4700::6810:85e5', true],
+];
+
+const urls = [
+  'http://[::ffff:127.0.0.1]/',
+  'http://[::ffff:a9fe:a9fe]/latest/meta-data/',
+  'http://0x7f.1/',
+  'http://localhost:3000/',
+  'file:///etc/passwd',
+];
+
+// Serves a redirect chain from memory, recording which URLs were requested
+function stubFetch(routes: Record<string, () => Response>) {
+  const requested: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = String(input);
+    requested.push(url);
+    return routes[url]?.() ?? new Response('not found', { status: 404 });
+  }) as typeof fetch;
+  return requested;
+}
+
+const redirectTo = (location: string) => () =>
+  new Response(null, { status: 302, headers: { location } });
+
+export async function testPublicFetch() {
+  const originalFetch = globalThis.fetch;
+  let failures = 0;
+  const check = (ok: boolean, label: string) => {
+    if (!ok) failures++;
+    console.log(`${ok ? 'ok  ' : 'FAIL'} ${label}`);
+  };
+
+  for (const [address, expected] of addresses) {
+    check(isPublicAddress(address) === expected, `${address} public=${expected}`);
+  }
+
+  for (const url of urls) {
+    stubFetch({});
+    try {
+      await fetchPublicPage(url, { retries: 0 }, (response) => response.text());
+      check(false, `${url} was fetched`);
+    } catch (error) {
+      check(error instanceof NonPublicUrlError, `${url} refused`);
+    }
+  }
+
+  // A public page redirecting to the metadata service must not be followed
+  const blocked = stubFetch({
+    'http://93.184.216.34/start': redirectTo('http://169.254.169.254/latest/meta-data/'),
+  });
+  try {
+    await fetchPublicPage('http://93.184.216.34/start', { retries: 0 }, (r) => r.text());
+    check(false, 'redirect to 169.254.169.254 was followed');
+  } catch (error) {
+    check(
+      error instanceof NonPublicUrlError && blocked.length === 1,
+      `redirect to 169.254.169.254 refused after ${blocked.length} request(s)`,
+    );
+  }
+
+  // The same through a mapped IPv6 literal
+  const mapped = stubFetch({ 'http://93.184.216.34/a': redirectTo('http://[::ffff:7f00:1]/') });
+  try {
+    await fetchPublicPage('http://93.184.216.34/a', { retries: 0 }, (r) => r.text());
+    check(false, 'redirect to [::ffff:7f00:1] was followed');
+  } catch (error) {
+    check(
+      error instanceof NonPublicUrlError && mapped.length === 1,
+      'redirect to [::ffff:7f00:1] refused',
+    );
+  }
+
+  // Public redirects are followed and report the final URL
+  stubFetch({
+    'http://93.184.216.34/old': redirectTo('/new'),
+    'http://93.184.216.34/new': () => new Response('moved here'),
+  });
+  try {
+    const { url, result } = await fetchPublicPage(
+      'http://93.184.216.34/old',
+      { retries: 0 },
+      (response) => response.text(),
+    );
+    check(
+      url === 'http://93.184.216.34/new' && result === 'moved here',
+      `public redirect to ${url}`,
+    );
+  } catch (error) {
+    check(false, `public redirect failed: ${error}`);
+  }
+
+  // Endless redirects stop at the hop limit
+  stubFetch({ 'http://93.184.216.34/loop': redirectTo('/loop') });
+  try {
+    await fetchPublicPage('http://93.184.216.34/loop', { retries: 0 }, (r) => r.text());
+    check(false, 'redirect loop was followed forever');
+  } catch (error) {
+    check(/Too many redirects/.test(String(error)), 'redirect loop stopped');
+  }
+
+  globalThis.fetch = originalFetch;
+
+  // DNS rebinding: the check resolves to a public address, a second lookup to loopback
+  let connections = 0;
+  const server = createServer((_, response) => response.end('internal'));
+  server.on('connection', () => connections++);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const { lookup: checkLookup } = dns.promises;
+  const { lookup: connectLookup } = dns;
+  dns.promises.lookup = (async () => [
+    { address: '93.184.216.34', family: 4 },
+  ]) as unknown as typeof dns.promises.lookup;
+  dns.lookup = ((_host: string, options: unknown, callback: unknown) => {
+    const done = (typeof options === 'function' ? options : callback) as (
+      ...args: unknown[]
+    ) => void;
+    const all = typeof options === 'object' && (options as { all?: boolean }).all;
+    if (all) done(null, [{ address: '127.0.0.1', family: 4 }]);
+    else done(null, '127.0.0.1', 4);
+  }) as typeof dns.lookup;
+  try {
+    // Nothing listens on the checked address; what matters is that loopback was never reached
+    await fetchPublicPage(`http://rebind.test:${port}/`, { retries: 0, timeoutMs: 1000 }, (r) =>
+      r.text(),
+    ).catch(() => {});
+    check(connections === 0, `rebinding host not reached (${connections} connections)`);
+  } finally {
+    dns.promises.lookup = checkLookup;
+    dns.lookup = connectLookup;
+    server.close();
+  }
+
+  console.log(
+    failures === 0 ? 'All public fetch checks passed' : `${failures} public fetch checks failed`,
+  );
+  return { failures };
+}
+
+// Expected output: one "ok" line per check, then "All public fetch checks passed"
@@ -0,0 +1,190 @@
+import type { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { isIP, type LookupFunction } from 'node:net';
+import { Agent } from 'undici';
+import { request, type HttpOptions } from '@/lib/http/client';
+
+/**
+ * Public Page Fetching
+ *
+ * Fetches pages the model asks for without reaching hosts inside the
+ * server's network. Redirects are followed by hand, and every hop's host is
+ * resolved and checked before a request goes out to it. The check runs on
+ * the resolved addresses, so DNS names pointing at private ranges and
+ * IPv4-mapped IPv6 literals are caught as well. The connection then uses
+ * the checked addresses instead of resolving the name again, so a host that
+ * answers differently the second time (DNS rebinding) cannot slip through.
+ */
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUS = new Set([301, 302, 303, 307, 308]);
+
+export class NonPublicUrlError extends Error {
+  constructor(
+    public readonly url: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'NonPublicUrlError';
+  }
+}
+
+// Loopback, private, link-local, CGNAT, documentation, multicast and reserved ranges
+const BLOCKED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+const inIpv4Range = (value: number, [base, prefix]: [string, number]) =>
+  Math.floor(value / 2 ** (32 - prefix)) === Math.floor(ipv4ToNumber(base) / 2 ** (32 - prefix));
+
+// Eight 16-bit groups of a valid IPv6 address, with a dotted IPv4 tail expanded
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().split('%')[0];
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+  if (dotted) {
+    const value = ipv4ToNumber(dotted);
+    const high = Math.floor(value / 65536).toString(16);
+    text = `${text.slice(0, -dotted.length)}${high}:${(value % 65536).toString(16)}`;
+  }
+  const parse = (part?: string) =>
+    part ? part.split(':').map((group) => parseInt(group, 16)) : [];
+  const [head, tail] = text.split('::');
+  if (tail === undefined) return parse(head);
+  const start = parse(head);
+  const end = parse(tail);
+  return [...start, ...new Array<number>(8 - start.length - end.length).fill(0), ...end];
+}
+
+const embeddedIpv4 = (high: number, low: number) =>
+  [high >> 8, high & 255, low >> 8, low & 255].join('.');
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) {
+    const value = ipv4ToNumber(address);
+    return !BLOCKED_IPV4.some((range) => inIpv4Range(value, range));
+  }
+  if (family !== 6) return false;
+
+  const groups = ipv6Groups(address);
+  const [first, second] = groups;
+  const zeros = (from: number, to: number) => groups.slice(from, to).every((group) => group === 0);
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) carry an IPv4 address in the last 32 bits
+  if (
+    (zeros(0, 5) && groups[5] === 0xffff) ||
+    (first === 0x64 && second === 0xff9b && zeros(2, 6))
+  ) {
+    return isPublicAddress(embeddedIpv4(groups[6], groups[7]));
+  }
+  // 6to4 (2002::/16) carries one in the second and third groups
+  if (first === 0x2002) return isPublicAddress(embeddedIpv4(second, groups[2]));
+  return !(
+    zeros(0, 6) || // unspecified, loopback and IPv4-compatible
+    (first === 0x64 && second === 0xff9b) || // local-use NAT64
+    (first === 0x100 && zeros(1, 4)) || // discard-only
+    (first === 0x2001 && (second === 0 || second === 0xdb8)) || // Teredo, documentation
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xffc0) === 0xfec0 || // site-local
+    (first & 0xff00) === 0xff00 // multicast
+  );
+}
+
+// Throws NonPublicUrlError unless every address the host resolves to is public
+export async function assertPublicUrl(
+  value: string,
+): Promise<{ url: URL; addresses: LookupAddress[] }> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new NonPublicUrlError(value, `Invalid URL: ${value}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new NonPublicUrlError(value, 'Only http(s) pages can be read');
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    throw new NonPublicUrlError(value, `Could not resolve ${host}`);
+  }
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    throw new NonPublicUrlError(value, `${host} is not a public address`);
+  }
+  return { url, addresses };
+}
+
+// Connection lookup that only hands out the addresses checked for the hop
+function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (hostname, options, callback) => {
+    const matching = addresses.filter(({ family }) => !options.family || family === options.family);
+    if (matching.length === 0) {
+      const error: NodeJS.ErrnoException = new Error(`No checked address for ${hostname}`);
+      error.code = 'ENOTFOUND';
+      callback(error, '');
+    } else if (options.all) {
+      callback(null, matching);
+    } else {
+      callback(null, matching[0].address, matching[0].family);
+    }
+  };
+}
+
+/**
+ * Fetch a Public Page
+ *
+ * Like `request`, but each hop of a redirect chain is checked with
+ * `assertPublicUrl` before it is fetched, and connects only to the addresses
+ * that passed. `read` gets the final response.
+ */
+export async function fetchPublicPage<T>(
+  url: string,
+  options: Omit<HttpOptions, 'provider' | 'redirect' | 'dispatcher'>,
+  read: (response: Response) => Promise<T>,
+): Promise<{ url: string; result: T }> {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const { url: checked, addresses } = await assertPublicUrl(current);
+    const hopUrl = checked.toString();
+    const dispatcher = new Agent({ connect: { lookup: pinnedLookup(addresses) } });
+    try {
+      const outcome = await request(
+        hopUrl,
+        { ...options, redirect: 'manual', dispatcher },
+        async (response) => {
+          if (!REDIRECT_STATUS.has(response.status)) {
+            return { done: true as const, result: await read(response) };
+          }
+          await response.body?.cancel().catch(() => {});
+          const location = response.headers.get('location');
+          if (!location) throw new Error(`Redirect without a Location header from ${hopUrl}`);
+          return { done: false as const, location: new URL(location, hopUrl).toString() };
+        },
+      );
+      if (outcome.done) return { url: hopUrl, result: outcome.result };
+      current = outcome.location;
+    } finally {
+      await dispatcher.destroy().catch(() => {});
+    }
+  }
+  throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+}
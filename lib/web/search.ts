@@ -0,0 +1,230 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { fetchJson, type HttpOptions } from '@/lib/http/client';
+
+/**
+ * Web Search Providers
+ *
+ * Every provider returns results normalized to one shape. Providers are
+ * tried in the order configured by SEARCH_PROVIDERS; unconfigured ones are
+ * skipped and a failing one hands over to the next.
+ */
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  publishedAt: string | null;
+  source: string; // provider name
+}
+
+export interface SearchOptions {
+  limit: number;
+  signal?: AbortSignal;
+}
+
+export interface SearchProvider {
+  name: string;
+  label: string;
+  isConfigured(): boolean;
+  search(query: string, options: SearchOptions): Promise<SearchResult[]>;
+}
+
+export interface SearchResponse {
+  provider: string;
+  label: string;
+  results: SearchResult[];
+  failures: { provider: string; error: string }[];
+}
+
+const PROVIDER_TIMEOUT_MS = 8000;
+const DEFAULT_ORDER = 'google,tavily,brave,searxng';
+const DEFAULT_FIXTURES_PATH = path.join(process.cwd(), 'lib/web/fixtures/search.json');
+
+const stripHtml = (text: string | undefined) =>
+  (text ?? '').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+
+// One retry per provider, failing over to the next provider is quicker than retrying more
+const getJson = (url: string, init: HttpOptions, provider: string) =>
+  fetchJson(url, { ...init, provider, timeoutMs: PROVIDER_TIMEOUT_MS, retries: 1 });
+
+export const googleProvider: SearchProvider = {
+  name: 'google',
+  label: 'Google Search',
+  isConfigured: () => Boolean(process.env.GOOGLE_API_KEY && process.env.GOOGLE_CSE_ID),
+  async search(query, { limit, signal }) {
+    const params = new URLSearchParams({
+      q: query,
+      key: process.env.GOOGLE_API_KEY!,
+      cx: process.env.GOOGLE_CSE_ID!,
+      num: String(Math.min(limit, 10)),
+    });
+    const data = await getJson(
+      `https://www.googleapis.com/customsearch/v1?${params}`,
+      { signal },
+      'google-search',
+    );
+    return (data.items ?? []).map(
+      (item: { title: string; link: string; snippet?: string; pagemap?: { metatags?: Record<string, string>[] } }) => ({
+        title: item.title,
+        url: item.link,
+        snippet: item.snippet ?? '',
+        publishedAt: item.pagemap?.metatags?.[0]?.['article:published_time'] ?? null,
+        source: 'google',
+      }),
+    );
+  },
+};
+
+export const tavilyProvider: SearchProvider = {
+  name: 'tavily',
+  label: 'Tavily',
+  isConfigured: () => Boolean(process.env.TAVILY_API_KEY),
+  async search(query, { limit, signal }) {
+    const data = await getJson(
+      'https://api.tavily.com/search',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${process.env.TAVILY_API_KEY}`,
+        },
+        body: JSON.stringify({ query, max_results: limit }),
+        signal,
+      },
+      'tavily',
+    );
+    return (data.results ?? []).map(
+      (item: { title: string; url: string; content?: string; published_date?: string }) => ({
+        title: item.title,
+        url: item.url,
+        snippet: item.content ?? '',
+        publishedAt: item.published_date ?? null,
+        source: 'tavily',
+      }),
+    );
+  },
+};
+
+export const braveProvider: SearchProvider = {
+  name: 'brave',
+  label: 'Brave Search',
+  isConfigured: () => Boolean(process.env.BRAVE_SEARCH_API_KEY),
+  async search(query, { limit, signal }) {
+    const params = new URLSearchParams({ q: query, count: String(Math.min(limit, 20)) });
+    const data = await getJson(
+      `https://api.search.brave.com/res/v1/web/search?${params}`,
+      {
+        headers: {
+          Accept: 'application/json',
+          'X-Subscription-Token': process.env.BRAVE_SEARCH_API_KEY!,
+        },
+        signal,
+      },
+      'brave',
+    );
+    return (data.web?.results ?? []).map(
+      (item: { title: string; url: string; description?: string; page_age?: string }) => ({
+        title: stripHtml(item.title),
+        url: item.url,
+        snippet: stripHtml(item.description),
+        publishedAt: item.page_age ?? null,
+        source: 'brave',
+      }),
+    );
+  },
+};
+
+// Self-hosted metasearch, the instance needs the JSON output format enabled
+export const searxngProvider: SearchProvider = {
+  name: 'searxng',
+  label: 'SearXNG',
+  isConfigured: () => Boolean(process.env.SEARXNG_URL),
+  async search(query, { limit, signal }) {
+    const params = new URLSearchParams({ q: query, format: 'json' });
+    const base = process.env.SEARXNG_URL!.replace(/\/$/, '');
+    const data = await getJson(`${base}/search?${params}`, { signal }, 'searxng');
+    return (data.results ?? []).slice(0, limit).map(
+      (item: { title: string; url: string; content?: string; publishedDate?: string | null }) => ({
+        title: item.title,
+        url: item.url,
+        snippet: stripHtml(item.content),
+        publishedAt: item.publishedDate ?? null,
+        source: 'searxng',
+      }),
+    );
+  },
+};
+
+interface SearchFixture {
+  pattern: string;
+  results: Omit<SearchResult, 'source'>[];
+}
+
+let cachedFixtures: SearchFixture[] | null = null;
+
+// Offline results from a JSON fixture file, first matching pattern wins
+export const localProvider: SearchProvider = {
+  name: 'local',
+  label: 'Local fixtures',
+  isConfigured: () => true,
+  async search(query, { limit }) {
+    if (!cachedFixtures) {
+      const file = process.env.SEARCH_FIXTURES_PATH || DEFAULT_FIXTURES_PATH;
+      cachedFixtures = JSON.parse(fs.readFileSync(file, 'utf8')) as SearchFixture[];
+    }
+    const fixture = cachedFixtures.find((f) => new RegExp(f.pattern, 'i').test(query));
+    return (fixture?.results ?? [])
+      .slice(0, limit)
+      .map((result) => ({ ...result, source: 'local' }));
+  },
+};
+
+const PROVIDERS: Record<string, SearchProvider> = {
+  google: googleProvider,
+  tavily: tavilyProvider,
+  brave: braveProvider,
+  searxng: searxngProvider,
+  local: localProvider,
+};
+
+// Configured chain; the local fixtures join automatically in offline mock mode
+export function searchProviderChain(): SearchProvider[] {
+  const names = (process.env.SEARCH_PROVIDERS || DEFAULT_ORDER)
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name in PROVIDERS);
+  if (process.env.AI_MOCK_MODEL === 'true' && !names.includes('local')) {
+    names.push('local');
+  }
+  return names.map((name) => PROVIDERS[name]).filter((provider) => provider.isConfigured());
+}
+
+// Search with failover: the first provider with results wins
+export async function searchWeb(query: string, options: SearchOptions): Promise<SearchResponse> {
+  const chain = searchProviderChain();
+  if (chain.length === 0) {
+    throw new Error('Search unavailable: no search provider is configured.');
+  }
+
+  const failures: SearchResponse['failures'] = [];
+  let empty: SearchResponse | null = null;
+
+  for (const provider of chain) {
+    try {
+      const results = await provider.search(query, options);
+      if (results.length > 0) {
+        return { provider: provider.name, label: provider.label, results, failures };
+      }
+      empty ??= { provider: provider.name, label: provider.label, results: [], failures };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Search provider ${provider.name} failed:`, message);
+      failures.push({ provider: provider.name, error: message });
+    }
+  }
+
+  if (empty) return empty;
+  throw new Error(`All search providers failed: ${failures.map((f) => `${f.provider} (${f.error})`).join(', ')}`);
+}
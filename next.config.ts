@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The calculator worker and its modules load mathjs at runtime from node_modules
+  serverExternalPackages: ["mathjs"],
+  outputFileTracingIncludes: {
+    "/api/chat": ["./lib/math/*.mjs"],
+  },
 };
 
 export default nextConfig;